@@ -10,14 +10,139 @@ import {
     SignalLow,
     SignalMedium,
     SignalHigh,
-    User
+    User,
+    AlertTriangle,
+    Share2,
+    CheckCircle2,
+    SlidersHorizontal,
+    Volume2,
+    VolumeX,
+    Activity
 } from 'lucide-react';
-import { cn, formatLatency } from '@/lib/utils';
-import type { ConnectedPeer, ConnectionStatus } from '@/lib/store';
+import { cn, formatFileSize, formatLatency } from '@/lib/utils';
+import type { ConnectedPeer, ConnectionStatus, SyncHealth, VolumeSetting } from '@/lib/store';
+import { CHANNEL_ROLES, type ChannelRole } from '@/lib/protocol';
+import { LatencyTrimInput } from './latency-trim-input';
 
 interface DeviceListProps {
     peers: Map<string, ConnectedPeer>;
     onGrantMaster?: (peerId: string) => void;
+    nextTrackId?: string | null; // Queue item after the current one, to show who has it ready
+    // The mixer is shown only when handlers are passed (host)
+    masterVolume?: VolumeSetting;
+    onMasterVolume?: (volume: VolumeSetting) => void;
+    onPeerVolume?: (peerId: string, volume: VolumeSetting) => void;
+    onPeerChannel?: (peerId: string, role: ChannelRole) => void;
+    onPeerLatencyTrim?: (peerId: string, ms: number) => void;
+}
+
+export const CHANNEL_LABELS: Record<ChannelRole, string> = {
+    stereo: 'Stereo',
+    left: 'Left',
+    right: 'Right',
+    mono: 'Mono',
+    center: 'Center',
+    rear: 'Rear',
+};
+
+interface VolumeFaderProps {
+    label: string;
+    value: VolumeSetting;
+    onChange: (volume: VolumeSetting) => void;
+}
+
+function VolumeFader({ label, value, onChange }: VolumeFaderProps) {
+    const percent = Math.round(value.volume * 100);
+    const Icon = value.muted || percent === 0 ? VolumeX : Volume2;
+
+    return (
+        <div className="flex items-center gap-2">
+            <button
+                type="button"
+                onClick={() => onChange({ ...value, muted: !value.muted })}
+                title={value.muted ? `Unmute ${label}` : `Mute ${label}`}
+                aria-pressed={value.muted}
+                className={cn(
+                    'flex-shrink-0 transition-colors',
+                    value.muted ? 'text-[--color-error]' : 'text-[--color-text-muted] hover:text-[--color-text-primary]'
+                )}
+            >
+                <Icon className="w-4 h-4" />
+            </button>
+            <input
+                type="range"
+                min={0}
+                max={100}
+                value={percent}
+                onChange={(e) => onChange({ ...value, volume: Number(e.target.value) / 100 })}
+                aria-label={`${label} volume`}
+                className={cn('flex-1 min-w-0 accent-[--color-accent]', value.muted && 'opacity-40')}
+            />
+            <span className="w-9 text-right text-xs font-mono text-[--color-text-muted]">
+                {percent}%
+            </span>
+        </div>
+    );
+}
+
+// Playback error or offset uncertainty beyond these is worth a look (ms)
+const SYNC_WARNING = 10;
+const SYNC_POOR = 30;
+
+// Less decoded audio than this ahead of the play position means a stall is close (seconds)
+const LOW_BUFFER = 5;
+
+type SyncLevel = 'good' | 'warning' | 'poor';
+
+const SYNC_LEVEL_COLORS: Record<SyncLevel, { text: string; bg: string }> = {
+    good: { text: 'text-[--color-success]', bg: 'bg-[--color-success]' },
+    warning: { text: 'text-[--color-warning]', bg: 'bg-[--color-warning]' },
+    poor: { text: 'text-[--color-error]', bg: 'bg-[--color-error]' },
+};
+
+function getSyncLevel(report: SyncHealth): SyncLevel {
+    const error = Math.max(Math.abs(report.playbackError ?? 0), report.confidence);
+    if (error >= SYNC_POOR) return 'poor';
+    if (error >= SYNC_WARNING) return 'warning';
+    return 'good';
+}
+
+function SyncHealthBar({ history }: { history: SyncHealth[] }) {
+    const latest = history[history.length - 1];
+    const level = getSyncLevel(latest);
+    const error = latest.playbackError;
+    const details = [
+        `RTT ${latest.roundTripTime.toFixed(1)}ms`,
+        `offset ${latest.clockOffset.toFixed(1)}ms ±${latest.confidence.toFixed(1)}ms`,
+        `${latest.buffered.toFixed(0)}s buffered`,
+    ].join(', ');
+
+    return (
+        <div className="flex items-center gap-2 mt-1.5" title={details}>
+            <Activity className={cn('w-3 h-3 flex-shrink-0', SYNC_LEVEL_COLORS[level].text)} />
+            {/* One bar per report, as tall as its playback error */}
+            <div className="flex items-end gap-px h-3">
+                {history.map(report => (
+                    <div
+                        key={report.receivedAt}
+                        className={cn('w-1 rounded-sm', SYNC_LEVEL_COLORS[getSyncLevel(report)].bg)}
+                        style={{ height: `${Math.max(15, Math.min(100, (Math.abs(report.playbackError ?? 0) / SYNC_POOR) * 100))}%` }}
+                    />
+                ))}
+            </div>
+            <span className={cn('text-xs font-mono', SYNC_LEVEL_COLORS[level].text)}>
+                {error !== null
+                    ? `${error >= 0 ? '+' : ''}${error.toFixed(1)}ms`
+                    : `±${latest.confidence.toFixed(1)}ms`}
+            </span>
+            {error !== null && latest.buffered < LOW_BUFFER && !latest.bufferedToEnd && (
+                <span className="flex items-center gap-1 text-xs text-[--color-warning]">
+                    <AlertTriangle className="w-3 h-3" />
+                    Low buffer
+                </span>
+            )}
+        </div>
+    );
 }
 
 function getSignalIcon(latency: number) {
@@ -47,7 +172,16 @@ function getStatusBg(status: ConnectionStatus): string {
     }
 }
 
-export function DeviceList({ peers, onGrantMaster }: DeviceListProps) {
+export function DeviceList({
+    peers,
+    onGrantMaster,
+    nextTrackId = null,
+    masterVolume,
+    onMasterVolume,
+    onPeerVolume,
+    onPeerChannel,
+    onPeerLatencyTrim
+}: DeviceListProps) {
     const peerArray = Array.from(peers.values());
 
     if (peerArray.length === 0) {
@@ -82,6 +216,17 @@ export function DeviceList({ peers, onGrantMaster }: DeviceListProps) {
                 </span>
             </div>
 
+            {/* Mixer master fader: scales every device, the host included */}
+            {masterVolume && onMasterVolume && (
+                <div className="p-4 rounded-xl bg-[--color-surface] border border-[--color-border]">
+                    <div className="flex items-center gap-2 mb-2 text-xs font-medium text-[--color-text-secondary] uppercase tracking-wider">
+                        <SlidersHorizontal className="w-3.5 h-3.5" />
+                        Master
+                    </div>
+                    <VolumeFader label="all devices" value={masterVolume} onChange={onMasterVolume} />
+                </div>
+            )}
+
             <motion.div className="space-y-2">
                 {peerArray.map((peer, index) => {
                     const SignalIcon = getSignalIcon(peer.latencyOffset);
@@ -127,12 +272,105 @@ export function DeviceList({ peers, onGrantMaster }: DeviceListProps) {
                                 </div>
                                 <div className="flex items-center gap-3 mt-0.5">
                                     <span className={cn('text-xs', getStatusColor(peer.status))}>
-                                        {peer.status === 'connected' ? 'Connected' : peer.status}
+                                        {peer.handshake === 'pending'
+                                            ? 'Handshaking...'
+                                            : peer.status === 'connected' ? 'Connected' : peer.status}
                                     </span>
+                                    {peer.handshake === 'degraded' && (
+                                        <span
+                                            className="flex items-center gap-1 text-xs text-[--color-warning]"
+                                            title={peer.handshakeReason || undefined}
+                                        >
+                                            <AlertTriangle className="w-3 h-3" />
+                                            Degraded
+                                        </span>
+                                    )}
+                                    {peer.swarm && (
+                                        <span
+                                            className="flex items-center gap-1 text-xs text-[--color-accent]"
+                                            title="Fetching the track from other guests"
+                                        >
+                                            <Share2 className="w-3 h-3" />
+                                            Swarm
+                                        </span>
+                                    )}
+                                    {nextTrackId !== null && peer.readyTrackId === nextTrackId && (
+                                        <span
+                                            className="flex items-center gap-1 text-xs text-[--color-success]"
+                                            title="The next track is decoded on this device"
+                                        >
+                                            <CheckCircle2 className="w-3 h-3" />
+                                            Next ready
+                                        </span>
+                                    )}
+                                    {peer.rejectedMessages > 0 && (
+                                        <span
+                                            className="text-xs text-[--color-error]"
+                                            title={peer.lastRejection || undefined}
+                                        >
+                                            {peer.rejectedMessages} rejected
+                                        </span>
+                                    )}
                                     <span className="text-xs text-[--color-text-muted]">
                                         {peer.id.slice(-6)}
                                     </span>
                                 </div>
+                                {peer.transfer && (
+                                    <div className="flex items-center gap-2 mt-1.5">
+                                        {peer.transfer.active && (
+                                            <div className="flex-1 h-1 rounded-full bg-[--color-surface-hover] overflow-hidden">
+                                                <div
+                                                    className="h-full bg-[--color-accent]"
+                                                    style={{ width: `${(peer.transfer.sentChunks / Math.max(1, peer.transfer.totalChunks)) * 100}%` }}
+                                                />
+                                            </div>
+                                        )}
+                                        <span className={cn(
+                                            'text-xs font-mono',
+                                            peer.transfer.active ? 'text-[--color-accent]' : 'text-[--color-text-muted]'
+                                        )}>
+                                            {formatFileSize(peer.transfer.bytesPerSecond)}/s
+                                        </span>
+                                    </div>
+                                )}
+                                {peer.syncHistory.length > 0 && (
+                                    <SyncHealthBar history={peer.syncHistory} />
+                                )}
+                                {(onPeerVolume || onPeerChannel || onPeerLatencyTrim) && (
+                                    <div className="flex items-center gap-3 mt-2">
+                                        {onPeerVolume && (
+                                            <div className="flex-1 min-w-0">
+                                                <VolumeFader
+                                                    label={peer.name}
+                                                    value={peer.volume}
+                                                    onChange={(volume) => onPeerVolume(peer.id, volume)}
+                                                />
+                                            </div>
+                                        )}
+                                        {onPeerChannel && (
+                                            <select
+                                                value={peer.channel}
+                                                onChange={(e) => onPeerChannel(peer.id, e.target.value as ChannelRole)}
+                                                title="Part of the mix this device plays"
+                                                aria-label={`${peer.name} channel`}
+                                                className="px-2 py-1 rounded-lg text-xs bg-[--color-surface-elevated] border border-[--color-border] text-[--color-text-primary]"
+                                            >
+                                                {CHANNEL_ROLES.map(role => (
+                                                    <option key={role} value={role}>
+                                                        {CHANNEL_LABELS[role]}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        )}
+                                        {onPeerLatencyTrim && (
+                                            <LatencyTrimInput
+                                                label={peer.name}
+                                                value={peer.latencyTrim}
+                                                onChange={(ms) => onPeerLatencyTrim(peer.id, ms)}
+                                            />
+                                        )}
+                                    </div>
+                                )}
                             </div>
 
                             {/* Signal strength and latency */}
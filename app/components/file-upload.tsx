@@ -9,6 +9,7 @@ interface FileUploadProps {
     onFileSelect: (file: File) => void;
     isLoading?: boolean;
     accept?: string;
+    multiple?: boolean; // Call onFileSelect once per file picked or dropped
     className?: string;
 }
 
@@ -16,22 +17,25 @@ export function FileUpload({
     onFileSelect,
     isLoading = false,
     accept = 'audio/*',
+    multiple = false,
     className
 }: FileUploadProps) {
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault();
-        const file = e.dataTransfer.files[0];
-        if (file && file.type.startsWith('audio/')) {
+        const files = Array.from(e.dataTransfer.files).filter(file => file.type.startsWith('audio/'));
+        for (const file of multiple ? files : files.slice(0, 1)) {
             onFileSelect(file);
         }
-    }, [onFileSelect]);
+    }, [onFileSelect, multiple]);
 
     const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
+        const files = Array.from(e.target.files ?? []);
+        for (const file of multiple ? files : files.slice(0, 1)) {
             onFileSelect(file);
         }
-    }, [onFileSelect]);
+        // Allow picking the same file again
+        e.target.value = '';
+    }, [onFileSelect, multiple]);
 
     return (
         <motion.label
@@ -58,6 +62,7 @@ export function FileUpload({
             <input
                 type="file"
                 accept={accept}
+                multiple={multiple}
                 onChange={handleChange}
                 className="hidden"
                 disabled={isLoading}
@@ -79,7 +84,7 @@ export function FileUpload({
             </motion.div>
 
             <p className="text-[--color-text-secondary] font-medium">
-                {isLoading ? 'Loading audio...' : 'Drop audio file or click to browse'}
+                {isLoading ? 'Loading audio...' : `Drop audio ${multiple ? 'files' : 'file'} or click to browse`}
             </p>
             <p className="text-sm text-[--color-text-muted] mt-1">
                 MP3, WAV, FLAC, OGG supported
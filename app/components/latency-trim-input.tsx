@@ -0,0 +1,55 @@
+'use client';
+
+import { Timer } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { MAX_LATENCY_TRIM } from '@/lib/protocol';
+import { cn } from '@/lib/utils';
+
+interface LatencyTrimInputProps {
+    value: number; // ms
+    onChange: (ms: number) => void;
+    label: string;
+    className?: string;
+}
+
+export function LatencyTrimInput({ value, onChange, label, className }: LatencyTrimInputProps) {
+    // Typed value, only committed on blur or Enter so half-typed numbers don't reach the engine
+    const [draft, setDraft] = useState(String(value));
+
+    useEffect(() => {
+        setDraft(String(value));
+    }, [value]);
+
+    const commit = () => {
+        const ms = Number(draft);
+        if (draft.trim() !== '' && Number.isFinite(ms) && ms !== value) {
+            onChange(ms);
+        } else {
+            setDraft(String(value));
+        }
+    };
+
+    return (
+        <label
+            className={cn('flex items-center gap-1.5 text-xs text-[--color-text-muted]', className)}
+            title="Extra delay of the speaker this device plays through (e.g. Bluetooth)"
+        >
+            <Timer className="w-3.5 h-3.5 flex-shrink-0" />
+            <input
+                type="number"
+                min={-MAX_LATENCY_TRIM}
+                max={MAX_LATENCY_TRIM}
+                step={5}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                }}
+                aria-label={`${label} latency trim`}
+                className="w-16 px-1.5 py-1 rounded-lg text-right font-mono bg-[--color-surface-elevated] border border-[--color-border] text-[--color-text-primary]"
+            />
+            ms
+        </label>
+    );
+}
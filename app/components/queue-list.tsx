@@ -0,0 +1,128 @@
+'use client';
+
+import { AnimatePresence, motion } from 'framer-motion';
+import { ChevronDown, ChevronUp, ListMusic, Music, Play, X } from 'lucide-react';
+import type { QueueItem } from '@/lib/protocol';
+import { cn, formatTime } from '@/lib/utils';
+
+interface QueueListProps {
+    items: QueueItem[];
+    currentId: string | null;
+    // Controls are shown only when handlers are passed (host)
+    onSelect?: (id: string) => void;
+    onMove?: (id: string, toIndex: number) => void;
+    onRemove?: (id: string) => void;
+}
+
+export function QueueList({ items, currentId, onSelect, onMove, onRemove }: QueueListProps) {
+    if (items.length === 0) {
+        return (
+            <div className="flex items-center gap-3 py-6 justify-center text-sm text-[--color-text-muted]">
+                <ListMusic className="w-5 h-5" />
+                Queue is empty
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-medium text-[--color-text-secondary] uppercase tracking-wider flex items-center gap-2">
+                    <ListMusic className="w-4 h-4" />
+                    Queue
+                </h3>
+                <span className="text-xs text-[--color-text-muted]">
+                    {items.length} {items.length === 1 ? 'track' : 'tracks'}
+                </span>
+            </div>
+
+            <AnimatePresence initial={false}>
+                {items.map((item, index) => {
+                    const isCurrent = item.id === currentId;
+
+                    return (
+                        <motion.div
+                            key={item.id}
+                            layout
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, x: -20 }}
+                            className={cn(
+                                'flex items-center gap-3 px-3 py-2 rounded-xl border transition-colors',
+                                isCurrent
+                                    ? 'bg-[--color-accent]/10 border-[--color-accent]/40'
+                                    : 'bg-[--color-surface] border-[--color-border]'
+                            )}
+                        >
+                            <button
+                                type="button"
+                                onClick={() => onSelect?.(item.id)}
+                                disabled={!onSelect || isCurrent}
+                                title={onSelect && !isCurrent ? 'Play now' : undefined}
+                                className={cn(
+                                    'w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0',
+                                    'bg-[--color-surface-elevated] text-[--color-text-muted]',
+                                    onSelect && !isCurrent && 'hover:text-[--color-accent]'
+                                )}
+                            >
+                                {isCurrent ? (
+                                    <Music className="w-4 h-4 text-[--color-accent]" />
+                                ) : onSelect ? (
+                                    <Play className="w-4 h-4" />
+                                ) : (
+                                    <span className="text-xs font-mono">{index + 1}</span>
+                                )}
+                            </button>
+
+                            <div className="flex-1 min-w-0">
+                                <p className={cn(
+                                    'text-sm truncate',
+                                    isCurrent ? 'font-medium text-[--color-text-primary]' : 'text-[--color-text-secondary]'
+                                )}>
+                                    {item.name}
+                                </p>
+                                <p className="text-xs text-[--color-text-muted] font-mono">
+                                    {item.duration > 0 ? formatTime(item.duration) : '--:--'}
+                                </p>
+                            </div>
+
+                            {onMove && (
+                                <div className="flex flex-col">
+                                    <button
+                                        type="button"
+                                        onClick={() => onMove(item.id, index - 1)}
+                                        disabled={index === 0}
+                                        title="Move up"
+                                        className="text-[--color-text-muted] hover:text-[--color-text-primary] disabled:opacity-30"
+                                    >
+                                        <ChevronUp className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onMove(item.id, index + 1)}
+                                        disabled={index === items.length - 1}
+                                        title="Move down"
+                                        className="text-[--color-text-muted] hover:text-[--color-text-primary] disabled:opacity-30"
+                                    >
+                                        <ChevronDown className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            )}
+
+                            {onRemove && (
+                                <button
+                                    type="button"
+                                    onClick={() => onRemove(item.id)}
+                                    title="Remove from queue"
+                                    className="text-[--color-text-muted] hover:text-[--color-error]"
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            )}
+                        </motion.div>
+                    );
+                })}
+            </AnimatePresence>
+        </div>
+    );
+}
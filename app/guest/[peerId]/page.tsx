@@ -11,13 +11,17 @@ import {
     Crown,
     Clock,
     Volume2,
-    AlertTriangle
+    AlertTriangle,
+    Speaker
 } from 'lucide-react';
 import { cn, formatLatency } from '@/lib/utils';
 import { useMeshBeatStore } from '@/lib/store';
-import { peerManager } from '@/lib/peer-manager';
+import { peerManager, HandshakeRejectedError } from '@/lib/peer-manager';
 import { audioEngine } from '@/lib/audio-engine';
 import { AudioPlayer } from '../../components/audio-player';
+import { QueueList } from '../../components/queue-list';
+import { CHANNEL_LABELS } from '../../components/device-list';
+import { LatencyTrimInput } from '../../components/latency-trim-input';
 
 type GuestStatus = 'connecting' | 'connected' | 'syncing' | 'ready' | 'error';
 
@@ -38,7 +42,15 @@ export default function GuestPage({ params }: PageProps) {
         audioFile,
         playbackState,
         clockOffset,
+        playbackError,
         isMaster,
+        handshakeStatus,
+        handshakeReason,
+        transferError,
+        queue,
+        currentTrackId,
+        channelRole,
+        latencyTrim,
         setIsMaster
     } = useMeshBeatStore();
 
@@ -63,7 +75,9 @@ export default function GuestPage({ params }: PageProps) {
                 console.error('Failed to connect:', error);
                 if (mounted) {
                     setGuestStatus('error');
-                    setErrorMessage('Could not connect to room. It may no longer exist.');
+                    setErrorMessage(error instanceof HandshakeRejectedError
+                        ? error.message
+                        : 'Could not connect to room. It may no longer exist.');
                 }
             }
         };
@@ -76,20 +90,8 @@ export default function GuestPage({ params }: PageProps) {
         };
     }, [hostPeerId]);
 
-    // Simulate playback time
-    useEffect(() => {
-        if (playbackState !== 'playing') return;
-
-        const interval = setInterval(() => {
-            setCurrentTime(prev => {
-                const duration = audioFile?.duration || 0;
-                if (prev >= duration) return 0;
-                return prev + 0.1;
-            });
-        }, 100);
-
-        return () => clearInterval(interval);
-    }, [playbackState, audioFile?.duration]);
+    // Follow where the engine really is in the track
+    useEffect(() => audioEngine.onPositionChange(setCurrentTime), []);
 
     // Request master control
     const handleRequestMaster = useCallback(() => {
@@ -98,8 +100,9 @@ export default function GuestPage({ params }: PageProps) {
 
     // Playback controls (if master)
     const handlePlay = useCallback(() => {
-        peerManager.broadcastPlay(currentTime);
-    }, [currentTime]);
+        // Resumes from the position every device paused at
+        peerManager.broadcastPlay();
+    }, []);
 
     const handlePause = useCallback(() => {
         peerManager.broadcastPause();
@@ -107,15 +110,15 @@ export default function GuestPage({ params }: PageProps) {
 
     const handleStop = useCallback(() => {
         peerManager.broadcastStop();
-        setCurrentTime(0);
     }, []);
 
     const handleSeek = useCallback((time: number) => {
-        setCurrentTime(time);
-        if (playbackState === 'playing') {
-            peerManager.broadcastPlay(time);
-        }
-    }, [playbackState]);
+        peerManager.broadcastSeek(time);
+    }, []);
+
+    const handleLatencyTrim = useCallback((ms: number) => {
+        peerManager.setLatencyTrim(ms);
+    }, []);
 
     // Status indicator component
     const StatusIndicator = () => {
@@ -224,6 +227,28 @@ export default function GuestPage({ params }: PageProps) {
                         animate={{ opacity: 1, y: 0 }}
                         className="space-y-6"
                     >
+                        {/* Degraded handshake warning */}
+                        {handshakeStatus === 'degraded' && (
+                            <div className="flex items-start gap-3 p-4 rounded-xl bg-[--color-warning]/10 border border-[--color-warning]/30">
+                                <AlertTriangle className="w-5 h-5 text-[--color-warning] flex-shrink-0 mt-0.5" />
+                                <div className="text-sm">
+                                    <p className="font-medium text-[--color-text-primary]">Limited compatibility</p>
+                                    <p className="text-[--color-text-secondary] mt-0.5">{handshakeReason}</p>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Rejected transfer */}
+                        {transferError && (
+                            <div className="flex items-start gap-3 p-4 rounded-xl bg-[--color-error]/10 border border-[--color-error]/30">
+                                <AlertTriangle className="w-5 h-5 text-[--color-error] flex-shrink-0 mt-0.5" />
+                                <div className="text-sm">
+                                    <p className="font-medium text-[--color-text-primary]">Audio could not be verified</p>
+                                    <p className="text-[--color-text-secondary] mt-0.5">{transferError}</p>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Room Info Card */}
                         <div className="card">
                             <div className="flex items-center justify-between mb-4">
@@ -270,8 +295,30 @@ export default function GuestPage({ params }: PageProps) {
                                             transition={{ duration: 2, repeat: Infinity }}
                                         />
                                     </div>
+                                    {playbackError !== null && (
+                                        <div className="flex items-center justify-between text-sm mt-2">
+                                            <span className="text-[--color-text-secondary]">Playback Drift</span>
+                                            <span className={cn(
+                                                'font-mono',
+                                                Math.abs(playbackError) < 10 ? 'text-[--color-success]' : 'text-[--color-warning]'
+                                            )}>
+                                                {playbackError >= 0 ? '+' : ''}{playbackError.toFixed(1)}ms
+                                            </span>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
+
+                            {/* Output latency trim, saved for the speaker this device plays through */}
+                            <div className="flex items-center justify-between gap-3 mt-3 p-3 rounded-xl bg-[--color-surface-elevated]">
+                                <span className="text-sm text-[--color-text-secondary]">
+                                    Speaker delay
+                                    <span className="block text-xs text-[--color-text-muted]">
+                                        Raise it if this device plays behind the others
+                                    </span>
+                                </span>
+                                <LatencyTrimInput label="This device" value={latencyTrim} onChange={handleLatencyTrim} />
+                            </div>
                         </div>
 
                         {/* Audio Player Card */}
@@ -280,12 +327,20 @@ export default function GuestPage({ params }: PageProps) {
                                 <h3 className="text-sm font-medium text-[--color-text-secondary] uppercase tracking-wider">
                                     Now Playing
                                 </h3>
-                                {isMaster && (
-                                    <span className="badge">
-                                        <Crown className="w-3 h-3" />
-                                        Master
-                                    </span>
-                                )}
+                                <div className="flex items-center gap-2">
+                                    {channelRole !== 'stereo' && (
+                                        <span className="badge" title="The host assigned this device part of the mix">
+                                            <Speaker className="w-3 h-3" />
+                                            {CHANNEL_LABELS[channelRole]}
+                                        </span>
+                                    )}
+                                    {isMaster && (
+                                        <span className="badge">
+                                            <Crown className="w-3 h-3" />
+                                            Master
+                                        </span>
+                                    )}
+                                </div>
                             </div>
 
                             <AudioPlayer
@@ -301,6 +356,13 @@ export default function GuestPage({ params }: PageProps) {
                             />
                         </div>
 
+                        {/* Shared queue (read-only for guests) */}
+                        {queue.length > 0 && (
+                            <div className="card">
+                                <QueueList items={queue} currentId={currentTrackId} />
+                            </div>
+                        )}
+
                         {/* Request Master Button (if not master) */}
                         {!isMaster && audioFile && (
                             <motion.button
@@ -11,25 +11,36 @@ import {
     Pause,
     Crown,
     Loader2,
-    CheckCircle2
+    Radio,
+    Mic
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useMeshBeatStore } from '@/lib/store';
+import { useMeshBeatStore, type VolumeSetting } from '@/lib/store';
 import { peerManager } from '@/lib/peer-manager';
 import { audioEngine } from '@/lib/audio-engine';
+import { queueManager } from '@/lib/queue';
+import { calibrator } from '@/lib/calibration';
+import { MAX_CROSSFADE, type ChannelRole } from '@/lib/protocol';
+import { QUALITY_TIERS, type QualityTier } from '@/lib/transcoder';
 import { QRDisplay } from '../components/qr-display';
 import { FileUpload } from '../components/file-upload';
 import { AudioPlayer } from '../components/audio-player';
+import { QueueList } from '../components/queue-list';
 import { DeviceList, DeviceCount } from '../components/device-list';
 
 type HostStep = 'initializing' | 'ready' | 'audio-loaded' | 'error';
 
+// Crossfade lengths offered between queued tracks (seconds, 0 for gapless)
+const CROSSFADE_OPTIONS = [0, 2, 4, 8, MAX_CROSSFADE];
+
 export default function HostPage() {
     const router = useRouter();
     const [step, setStep] = useState<HostStep>('initializing');
     const [isLoadingAudio, setIsLoadingAudio] = useState(false);
     const [currentTime, setCurrentTime] = useState(0);
     const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [isCalibrating, setIsCalibrating] = useState(false);
+    const [calibrationStatus, setCalibrationStatus] = useState<string | null>(null);
 
     const {
         peerId,
@@ -38,8 +49,15 @@ export default function HostPage() {
         audioFile,
         playbackState,
         isMaster,
-        setAudioFile,
-        setPlaybackState
+        transferMode,
+        qualityTier,
+        queue,
+        currentTrackId,
+        crossfade,
+        masterVolume,
+        setTransferMode,
+        setQualityTier,
+        setCrossfade
     } = useMeshBeatStore();
 
     // Initialize as host with timeout
@@ -83,59 +101,46 @@ export default function HostPage() {
         return () => {
             mounted = false;
             clearTimeout(timeoutId);
+            queueManager.clear();
             peerManager.destroy();
         };
     }, []);
 
-    // Simulate playback time progression
-    useEffect(() => {
-        if (playbackState !== 'playing') return;
-
-        const interval = setInterval(() => {
-            setCurrentTime(prev => {
-                const duration = audioFile?.duration || 0;
-                if (prev >= duration) {
-                    setPlaybackState('stopped');
-                    return 0;
-                }
-                return prev + 0.1;
-            });
-        }, 100);
-
-        return () => clearInterval(interval);
-    }, [playbackState, audioFile?.duration, setPlaybackState]);
+    // Follow where the engine really is in the track
+    useEffect(() => audioEngine.onPositionChange(setCurrentTime), []);
 
-    // Handle file upload
+    // Handle file upload - every file joins the queue
     const handleFileSelect = useCallback(async (file: File) => {
         setIsLoadingAudio(true);
 
         try {
-            const { buffer, duration } = await audioEngine.loadFromFile(file);
-
-            const audioFileData = {
-                name: file.name,
-                size: file.size,
-                duration,
-                buffer,
-            };
-
-            setAudioFile(audioFileData);
+            await queueManager.add(file);
             setStep('audio-loaded');
-
-            // Stream to all connected peers
-            await peerManager.streamAudioToAll(buffer, file.name, duration);
         } catch (error) {
             console.error('Failed to load audio:', error);
         } finally {
             setIsLoadingAudio(false);
         }
-    }, [setAudioFile]);
+    }, []);
+
+    // Queue controls
+    const handleQueueSelect = useCallback((id: string) => {
+        queueManager.playNow(id);
+    }, []);
+
+    const handleQueueMove = useCallback((id: string, toIndex: number) => {
+        queueManager.move(id, toIndex);
+    }, []);
+
+    const handleQueueRemove = useCallback((id: string) => {
+        queueManager.remove(id);
+    }, []);
 
     // Playback controls
     const handlePlay = useCallback(() => {
-        peerManager.broadcastPlay(currentTime);
-        setCurrentTime(0);
-    }, [currentTime]);
+        // Resumes from the position every device paused at
+        peerManager.broadcastPlay();
+    }, []);
 
     const handlePause = useCallback(() => {
         peerManager.broadcastPause();
@@ -143,21 +148,53 @@ export default function HostPage() {
 
     const handleStop = useCallback(() => {
         peerManager.broadcastStop();
-        setCurrentTime(0);
     }, []);
 
     const handleSeek = useCallback((time: number) => {
-        setCurrentTime(time);
-        if (playbackState === 'playing') {
-            peerManager.broadcastPlay(time);
-        }
-    }, [playbackState]);
+        peerManager.broadcastSeek(time);
+    }, []);
 
     // Grant master control
     const handleGrantMaster = useCallback((targetPeerId: string) => {
         peerManager.grantMaster(targetPeerId);
     }, []);
 
+    const handleMasterVolume = useCallback((volume: VolumeSetting) => {
+        peerManager.setMasterVolume(volume);
+    }, []);
+
+    const handlePeerVolume = useCallback((targetPeerId: string, volume: VolumeSetting) => {
+        peerManager.setPeerVolume(targetPeerId, volume);
+    }, []);
+
+    const handlePeerChannel = useCallback((targetPeerId: string, role: ChannelRole) => {
+        peerManager.setPeerChannel(targetPeerId, role);
+    }, []);
+
+    const handlePeerLatencyTrim = useCallback((targetPeerId: string, ms: number) => {
+        peerManager.setPeerLatencyTrim(targetPeerId, ms);
+    }, []);
+
+    // Each guest chirps in turn while this device listens, then gets its trim
+    const handleCalibrate = useCallback(async () => {
+        const peers = Array.from(connectedPeers.values()).filter(peer => peer.handshake !== 'pending');
+        setIsCalibrating(true);
+        try {
+            const results = await calibrator.run(peers, setCalibrationStatus);
+            const heard = results.filter(result => result.trim !== null).length;
+            setCalibrationStatus(`Calibrated ${heard} of ${results.length} ${results.length === 1 ? 'device' : 'devices'}`);
+        } catch (error) {
+            console.error('[Host] Calibration failed:', error);
+            setCalibrationStatus(error instanceof Error ? error.message : 'Calibration failed');
+        } finally {
+            setIsCalibrating(false);
+        }
+    }, [connectedPeers]);
+
+    // Guests report when they have this one decoded
+    const currentIndex = queue.findIndex(item => item.id === currentTrackId);
+    const nextTrackId = currentIndex === -1 ? null : queue[currentIndex + 1]?.id ?? null;
+
     // Generate QR URL
     const qrUrl = peerId
         ? `${typeof window !== 'undefined' ? window.location.origin : ''}/guest/${peerId}`
@@ -271,36 +308,82 @@ export default function HostPage() {
                                     Audio Source
                                 </h3>
 
-                                {!audioFile ? (
-                                    <FileUpload
-                                        onFileSelect={handleFileSelect}
-                                        isLoading={isLoadingAudio}
+                                <FileUpload
+                                    onFileSelect={handleFileSelect}
+                                    isLoading={isLoadingAudio}
+                                    multiple
+                                    className={queue.length > 0 ? 'h-28' : undefined}
+                                />
+
+                                {queue.length > 0 && (
+                                    <div className="mt-4">
+                                        <QueueList
+                                            items={queue}
+                                            currentId={currentTrackId}
+                                            onSelect={handleQueueSelect}
+                                            onMove={handleQueueMove}
+                                            onRemove={handleQueueRemove}
+                                        />
+                                    </div>
+                                )}
+
+                                <label className="mt-4 flex items-center gap-3 cursor-pointer select-none">
+                                    <input
+                                        type="checkbox"
+                                        checked={transferMode === 'stream'}
+                                        onChange={(e) => setTransferMode(e.target.checked ? 'stream' : 'file')}
+                                        className="accent-[--color-accent]"
                                     />
-                                ) : (
-                                    <motion.div
-                                        initial={{ opacity: 0, scale: 0.95 }}
-                                        animate={{ opacity: 1, scale: 1 }}
-                                        className="p-4 rounded-xl bg-[--color-surface] border border-[--color-border] flex items-center gap-4"
+                                    <Radio className="w-4 h-4 text-[--color-text-muted]" />
+                                    <span className="text-sm text-[--color-text-secondary]">
+                                        Progressive streaming
+                                        <span className="block text-xs text-[--color-text-muted]">
+                                            Guests start playing before the whole track arrives. At Original quality
+                                            it&apos;s sent as uncompressed audio, around 10x the size of an MP3
+                                        </span>
+                                    </span>
+                                </label>
+
+                                <label className="mt-3 flex items-center justify-between gap-3">
+                                    <span className="text-sm text-[--color-text-secondary]">
+                                        Transfer quality
+                                        <span className="block text-xs text-[--color-text-muted]">
+                                            Lower tiers reach guests faster
+                                        </span>
+                                    </span>
+                                    <select
+                                        value={qualityTier}
+                                        onChange={(e) => setQualityTier(e.target.value as QualityTier)}
+                                        className="px-3 py-1.5 rounded-lg text-sm bg-[--color-surface] border border-[--color-border] text-[--color-text-primary]"
                                     >
-                                        <div className="w-12 h-12 rounded-xl bg-[--color-success]/10 flex items-center justify-center">
-                                            <CheckCircle2 className="w-6 h-6 text-[--color-success]" />
-                                        </div>
-                                        <div className="flex-1 min-w-0">
-                                            <p className="font-medium text-[--color-text-primary] truncate">
-                                                {audioFile.name}
-                                            </p>
-                                            <p className="text-sm text-[--color-text-muted]">
-                                                Ready to play
-                                            </p>
-                                        </div>
-                                        <button
-                                            onClick={() => setAudioFile(null)}
-                                            className="text-xs text-[--color-text-muted] hover:text-[--color-text-secondary]"
-                                        >
-                                            Change
-                                        </button>
-                                    </motion.div>
-                                )}
+                                        <option value="original">Original</option>
+                                        {Object.entries(QUALITY_TIERS).map(([tier, settings]) => (
+                                            <option key={tier} value={tier}>
+                                                {settings.label} ({settings.opusBitrate / 1000} kbps)
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+
+                                <label className="mt-3 flex items-center justify-between gap-3">
+                                    <span className="text-sm text-[--color-text-secondary]">
+                                        Between tracks
+                                        <span className="block text-xs text-[--color-text-muted]">
+                                            Every device fades at the same moment
+                                        </span>
+                                    </span>
+                                    <select
+                                        value={crossfade}
+                                        onChange={(e) => setCrossfade(Number(e.target.value))}
+                                        className="px-3 py-1.5 rounded-lg text-sm bg-[--color-surface] border border-[--color-border] text-[--color-text-primary]"
+                                    >
+                                        {CROSSFADE_OPTIONS.map(seconds => (
+                                            <option key={seconds} value={seconds}>
+                                                {seconds === 0 ? 'Gapless' : `${seconds}s crossfade`}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
                             </div>
                         </motion.div>
 
@@ -344,7 +427,35 @@ export default function HostPage() {
                                 <DeviceList
                                     peers={connectedPeers}
                                     onGrantMaster={handleGrantMaster}
+                                    nextTrackId={nextTrackId}
+                                    masterVolume={masterVolume}
+                                    onMasterVolume={handleMasterVolume}
+                                    onPeerVolume={handlePeerVolume}
+                                    onPeerChannel={handlePeerChannel}
+                                    onPeerLatencyTrim={handlePeerLatencyTrim}
                                 />
+
+                                {connectedPeers.size > 0 && (
+                                    <div className="mt-4 flex items-center gap-3">
+                                        <button
+                                            type="button"
+                                            onClick={handleCalibrate}
+                                            disabled={isCalibrating || playbackState === 'playing'}
+                                            title={playbackState === 'playing' ? 'Pause playback to calibrate' : undefined}
+                                            className="btn btn-secondary flex items-center gap-2 disabled:opacity-50"
+                                        >
+                                            {isCalibrating ? (
+                                                <Loader2 className="w-4 h-4 animate-spin" />
+                                            ) : (
+                                                <Mic className="w-4 h-4" />
+                                            )}
+                                            Auto-calibrate
+                                        </button>
+                                        <span className="text-xs text-[--color-text-muted]">
+                                            {calibrationStatus ?? 'Measures each speaker with this device\'s microphone'}
+                                        </span>
+                                    </div>
+                                )}
                             </div>
                         </motion.div>
                     </div>
@@ -4,12 +4,139 @@
  */
 
 import * as Tone from 'tone';
-import { CHUNK_SIZE } from './protocol';
+import { generateChirp } from './calibration-dsp';
+import { type AudioSegment, CHUNK_SIZE, type ChannelRole } from './protocol';
+import { localNow } from './sync-engine';
+
+// A decoded piece of the current track, placed at its position in the timeline
+interface TimelineSegment {
+    start: number; // Track position where this segment begins (seconds)
+    buffer: Tone.ToneAudioBuffer;
+}
+
+// An upcoming track decoded ahead of time, waiting to be swapped in
+interface StandbyTrack {
+    id: string;
+    buffer: Tone.ToneAudioBuffer;
+}
+
+// Track position at a context time, advancing at the playback rate from there
+interface PlayAnchor {
+    contextTime: number;
+    position: number; // seconds
+    rate: number;
+}
+
+// A segment's source and the context time it was told to start at
+interface StartedSegment {
+    source: Tone.ToneBufferSource;
+    startTime: number;
+}
+
+// A track's timeline, its sources and the fader they play through
+interface Deck {
+    segments: TimelineSegment[];
+    sources: Set<Tone.ToneBufferSource>;
+    started: Map<TimelineSegment, StartedSegment>;
+    gain: Tone.Gain;
+}
+
+// The standby track, already started on the second deck for a future handover
+interface ScheduledTransition {
+    id: string;
+    contextTime: number; // Context time the next track starts
+    syncedTime: number; // Synchronized time it starts at
+    crossfade: number; // Seconds the decks overlap
+    deck: Deck;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+// A pause the room agreed on, with every source told to stop at its context time
+interface PendingPause {
+    contextTime: number;
+    position: number; // Where playback holds once paused (seconds)
+    timer: ReturnType<typeof setTimeout>;
+}
+
+// How often the audio clock is lined up with the local clock again, as the two drift apart,
+// and segments coming within the schedule horizon are started (ms)
+const TICK_INTERVAL = 1000;
+
+// How far ahead segments are started, so a change of playback rate only has to move a few (seconds)
+const SCHEDULE_HORIZON = 10;
+
+// Recent readings of the clock mapping kept to pick the best from
+const CLOCK_READINGS = 5;
+
+// A reading this far off (ms) means the context was suspended or the output changed, not jitter
+const CLOCK_JUMP = 50;
+
+// How often position listeners hear where playback is (ms)
+const POSITION_INTERVAL = 100;
+
+// Largest gap between consecutive segments still counted as continuous audio (seconds)
+const SEGMENT_JOIN_TOLERANCE = 0.01;
+
+// Drift below this is left alone, as it is within the noise of the clock offset (seconds)
+const DRIFT_DEADBAND = 0.005;
+
+// Drift above this is fixed with a jump rather than by slowly catching up (seconds)
+const DRIFT_RESYNC_THRESHOLD = 0.05;
+
+// Furthest the playback rate is nudged from 1 while catching up, well below audible pitch change
+const MAX_RATE_NUDGE = 0.002;
+
+// Time the nudged rate takes to make up the drift measured (seconds)
+const DRIFT_CATCH_UP = 5;
+
+// Overlap of the old and new position when seeking during playback, so the jump doesn't click (seconds)
+const SEEK_CROSSFADE = 0.03;
+
+// Resolution of the equal-power fade curves
+const FADE_CURVE_POINTS = 128;
+
+// How long a volume change takes to settle, so faders don't click (seconds)
+const VOLUME_RAMP = 0.05;
+
+// Gains applied to the left and right input for each channel role, null for the untouched stereo mix
+// Center and rear follow the passive surround matrix: (L + R) and (L - R) at -3 dB
+const CHANNEL_ROUTING: Record<ChannelRole, [number, number] | null> = {
+    stereo: null,
+    left: [1, 0],
+    right: [0, 1],
+    mono: [0.5, 0.5],
+    center: [Math.SQRT1_2, Math.SQRT1_2],
+    rear: [Math.SQRT1_2, -Math.SQRT1_2],
+};
 
 export class AudioEngine {
-    private player: Tone.Player | null = null;
-    private buffer: Tone.ToneAudioBuffer | null = null;
-    private scheduledEventId: number | null = null;
+    private segments: TimelineSegment[] = []; // Sorted by start
+    private sources: Set<Tone.ToneBufferSource> = new Set();
+    private started: Map<TimelineSegment, StartedSegment> = new Map(); // Segments of the playing deck that have a source
+    private decoded: AudioBuffer | null = null; // Whole decoded file, when loaded in one piece
+    private trackId: string | null = null; // Loaded track (segmented ones are assembled under it)
+    private duration = 0;
+    private playAnchor: PlayAnchor | null = null;
+    private heldPosition = 0; // Position while nothing is playing, e.g. where it paused (seconds)
+    private syncAnchor: { syncedTime: number; position: number } | null = null; // Where the shared clock says the track should be
+    private deckGain: Tone.Gain | null = null; // Fader of the playing deck, created on first use
+    private output: Tone.Gain | null = null; // Volume stage both decks play through
+    private volume = 1; // Output gain
+    private channelRole: ChannelRole = 'stereo';
+    private router: Tone.ToneAudioNode[] = []; // Split/merge stage picking out the channel role
+    private latencyTrim = 0; // Delay the device's output path adds after the engine (seconds)
+    private clockMapping: number | null = null; // localNow() at which audio scheduled for context time 0 leaves the speaker (ms)
+    private clockReadings: number[] = [];
+    private tickTimer: ReturnType<typeof setInterval> | null = null;
+    private standby: StandbyTrack | null = null;
+    private transition: ScheduledTransition | null = null;
+    private tail: Deck | null = null; // Previous track, fading out after a transition
+    private tailTimer: ReturnType<typeof setTimeout> | null = null;
+    private pendingPause: PendingPause | null = null;
+    private endTimer: ReturnType<typeof setTimeout> | null = null;
+    private endedListeners: Set<() => void> = new Set();
+    private positionListeners: Set<(position: number) => void> = new Set();
+    private positionTimer: ReturnType<typeof setInterval> | null = null;
     private isReady = false;
 
     /**
@@ -18,9 +145,68 @@ export class AudioEngine {
      */
     async initialize(): Promise<void> {
         await Tone.start();
+        this.updateClockMapping();
+        if (!this.tickTimer) {
+            this.tickTimer = setInterval(() => {
+                this.updateClockMapping();
+                this.scheduleAhead();
+            }, TICK_INTERVAL);
+        }
         console.log('[AudioEngine] Tone.js initialized');
     }
 
+    /**
+     * Line the audio clock up with the local clock, including the delay to the speaker
+     * Prefers the browser's own pairing of the two from getOutputTimestamp(), otherwise reads
+     * currentTime and adds the reported output latency
+     */
+    private updateClockMapping(): number {
+        const context = Tone.getContext().rawContext as AudioContext;
+        const stamp = typeof context.getOutputTimestamp === 'function' ? context.getOutputTimestamp() : null;
+
+        if (stamp?.contextTime && stamp.performanceTime) {
+            // The sample at contextTime reaches the speaker at performanceTime
+            this.clockReadings = [];
+            this.clockMapping = performance.timeOrigin + stamp.performanceTime - stamp.contextTime * 1000;
+            return this.clockMapping;
+        }
+
+        const outputLatency = context.outputLatency || context.baseLatency || 0;
+        const reading = localNow() - context.currentTime * 1000 + outputLatency * 1000;
+        if (context.state !== 'running') {
+            return this.clockMapping ?? reading;
+        }
+
+        // currentTime only moves in whole render blocks, so a reading can come out late but never early:
+        // the smallest recent one is the closest
+        if (this.clockMapping !== null && Math.abs(reading - this.clockMapping) > CLOCK_JUMP) {
+            this.clockReadings = [];
+        }
+        this.clockReadings.push(reading);
+        if (this.clockReadings.length > CLOCK_READINGS) {
+            this.clockReadings.shift();
+        }
+        this.clockMapping = Math.min(...this.clockReadings);
+        return this.clockMapping;
+    }
+
+    /**
+     * Context time to schedule audio at so it leaves the speaker at a synchronized time
+     * @param clockOffset - The local clock offset to convert to local time
+     */
+    private toContextTime(syncedTime: number, clockOffset: number): number {
+        const mapping = this.clockMapping ?? this.updateClockMapping();
+        return (syncedTime - clockOffset - mapping) / 1000;
+    }
+
+    /**
+     * Synchronized time at which audio scheduled for a context time leaves the speaker
+     */
+    private toSyncedTime(contextTime: number, clockOffset: number): number {
+        const mapping = this.clockMapping ?? this.updateClockMapping();
+        return contextTime * 1000 + mapping + clockOffset;
+    }
+
     /**
      * Load audio from ArrayBuffer
      */
@@ -30,21 +216,15 @@ export class AudioEngine {
             const audioContext = Tone.getContext().rawContext;
             const decodedBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
 
-            // Create Tone.js buffer
-            this.buffer = new Tone.ToneAudioBuffer(decodedBuffer);
-
-            // Create player
-            if (this.player) {
-                this.player.dispose();
-            }
-
-            this.player = new Tone.Player(this.buffer).toDestination();
-            this.player.loop = false;
+            // The whole file is a single segment starting at 0
+            this.resetTimeline(null, decodedBuffer.duration);
+            this.decoded = decodedBuffer;
+            this.segments = [{ start: 0, buffer: new Tone.ToneAudioBuffer(decodedBuffer) }];
 
             this.isReady = true;
-            console.log(`[AudioEngine] Loaded: ${name}, Duration: ${this.buffer.duration}s`);
+            console.log(`[AudioEngine] Loaded: ${name}, Duration: ${decodedBuffer.duration}s`);
 
-            return this.buffer.duration;
+            return decodedBuffer.duration;
         } catch (error) {
             console.error('[AudioEngine] Failed to load audio:', error);
             throw error;
@@ -60,6 +240,112 @@ export class AudioEngine {
         return { buffer: arrayBuffer, duration };
     }
 
+    /**
+     * Prepare for a track that will arrive as separately decodable segments
+     * Calling again for the same track keeps what has been decoded so far
+     */
+    beginTrack(trackId: string, duration: number): void {
+        if (this.trackId === trackId) return;
+        this.resetTimeline(trackId, duration);
+        console.log(`[AudioEngine] Expecting segmented track ${trackId.slice(0, 12)}, Duration: ${duration}s`);
+    }
+
+    /**
+     * Check whether a segment of the current track has already been decoded
+     */
+    hasSegment(trackId: string, start: number): boolean {
+        return this.trackId === trackId && this.segments.some(seg => seg.start === start);
+    }
+
+    /**
+     * Decode one segment and add it to the timeline, joining playback if it's already running
+     * Playable as soon as the first segment is in
+     */
+    async addSegment(trackId: string, start: number, data: Uint8Array): Promise<void> {
+        if (this.hasSegment(trackId, start)) return;
+
+        const audioContext = Tone.getContext().rawContext;
+        const decodedBuffer = await audioContext.decodeAudioData(data.slice().buffer);
+
+        // A different track may have started while we were decoding
+        if (this.trackId !== trackId || this.hasSegment(trackId, start)) return;
+
+        const segment: TimelineSegment = { start, buffer: new Tone.ToneAudioBuffer(decodedBuffer) };
+        const index = this.segments.findIndex(seg => seg.start > start);
+        this.segments.splice(index === -1 ? this.segments.length : index, 0, segment);
+        this.isReady = true;
+
+        if (this.playAnchor) {
+            this.startSegment(segment, this.playAnchor);
+        }
+    }
+
+    /**
+     * Check whether every segment of the track has been decoded
+     */
+    isTrackComplete(trackId: string, segmentCount: number): boolean {
+        return this.trackId === trackId && this.segments.length === segmentCount;
+    }
+
+    /**
+     * Decode an upcoming track in the background so switching to it is instant
+     * Segmented files are decoded piece by piece and stitched into one buffer
+     */
+    async prepareStandby(id: string, data: ArrayBuffer, segments: AudioSegment[] | null): Promise<AudioBuffer> {
+        const audioContext = Tone.getContext().rawContext;
+        let decodedBuffer: AudioBuffer;
+
+        if (segments) {
+            const bytes = new Uint8Array(data);
+            const parts: { start: number; buffer: AudioBuffer }[] = [];
+            for (const segment of segments) {
+                const segmentBytes = bytes.slice(segment.offset, segment.offset + segment.length);
+                parts.push({ start: segment.start, buffer: await audioContext.decodeAudioData(segmentBytes.buffer) });
+            }
+            decodedBuffer = stitchSegments(parts, audioContext.sampleRate);
+        } else {
+            decodedBuffer = await audioContext.decodeAudioData(data.slice(0));
+        }
+
+        this.cancelTransition();
+        this.standby?.buffer.dispose();
+        this.standby = { id, buffer: new Tone.ToneAudioBuffer(decodedBuffer) };
+        console.log(`[AudioEngine] Standby ready: ${id.slice(0, 12)}, Duration: ${decodedBuffer.duration}s`);
+
+        return decodedBuffer;
+    }
+
+    /**
+     * Check whether a track is decoded and standing by
+     */
+    hasStandby(id: string): boolean {
+        return this.standby?.id === id;
+    }
+
+    /**
+     * Make the standby track the loaded one, if it's the track asked for
+     */
+    activateStandby(id: string): boolean {
+        const standby = this.standby;
+        if (standby?.id !== id) return false;
+
+        this.resetTimeline(id, standby.buffer.duration);
+        this.standby = null;
+        this.decoded = standby.buffer.get() ?? null;
+        this.segments = [{ start: 0, buffer: standby.buffer }];
+        this.isReady = true;
+        console.log(`[AudioEngine] Switched to standby track ${id.slice(0, 12)}`);
+
+        return true;
+    }
+
+    /**
+     * Decoded audio of the whole loaded file (null while a segmented track is playing)
+     */
+    getDecodedBuffer(): AudioBuffer | null {
+        return this.decoded;
+    }
+
     /**
      * Schedule playback at a specific synchronized time
      * @param scheduledTime - The synchronized time (from SyncEngine) to start
@@ -67,48 +353,661 @@ export class AudioEngine {
      * @param clockOffset - The local clock offset to convert to local time
      */
     schedulePlay(scheduledTime: number, seekPosition: number = 0, clockOffset: number = 0): void {
-        if (!this.player || !this.isReady) {
+        if (!this.isReady) {
             console.warn('[AudioEngine] Player not ready');
             return;
         }
 
-        // Convert synchronized time to local time
-        const localTime = scheduledTime - clockOffset;
-        const now = performance.now();
-        const delay = Math.max(0, (localTime - now) / 1000); // Convert to seconds
-
-        // Cancel any previously scheduled playback
-        this.cancelScheduled();
+        // Convert synchronized time to context time, early by the output path's delay
+        const startTime = this.toContextTime(scheduledTime, clockOffset) - this.latencyTrim;
+        const now = Tone.immediate();
+        const delay = Math.max(0, startTime - now);
 
-        // Use Tone.js Transport for precise scheduling
-        Tone.getTransport().cancel();
-        Tone.getTransport().stop();
-
-        // Schedule the player to start
-        this.player.seek(seekPosition);
+        // Cancel any previously scheduled playback or pause
+        this.cancelPause();
+        this.cancelTransition();
+        this.stopSources();
 
         if (delay > 0) {
             // Schedule for future
-            const startTimeAudioContext = Tone.now() + delay;
-            this.player.start(startTimeAudioContext, seekPosition);
+            this.playAnchor = { contextTime: startTime, position: seekPosition, rate: 1 };
             console.log(`[AudioEngine] Scheduled play in ${(delay * 1000).toFixed(1)}ms at position ${seekPosition}s`);
         } else {
             // Start immediately (we're late)
-            const lateBy = -delay;
+            const lateBy = now - startTime;
             const adjustedSeek = seekPosition + lateBy;
-            if (adjustedSeek < (this.buffer?.duration || 0)) {
-                this.player.start(Tone.now(), adjustedSeek);
-                console.log(`[AudioEngine] Late start by ${(lateBy * 1000).toFixed(1)}ms, seeking to ${adjustedSeek.toFixed(2)}s`);
+            if (adjustedSeek >= this.duration) {
+                return;
+            }
+            this.playAnchor = { contextTime: now, position: adjustedSeek, rate: 1 };
+            console.log(`[AudioEngine] Late start by ${(lateBy * 1000).toFixed(1)}ms, seeking to ${adjustedSeek.toFixed(2)}s`);
+        }
+        this.syncAnchor = { syncedTime: scheduledTime, position: seekPosition };
+
+        for (const segment of this.segments) {
+            this.startSegment(segment, this.playAnchor);
+        }
+        this.scheduleEnd(this.playAnchor);
+    }
+
+    /**
+     * Start one segment at the context time where it falls relative to the anchor
+     * Segments that arrive late start partway through, so they stay on the timeline
+     * Ones beyond the schedule horizon are left for scheduleAhead to start later
+     */
+    private startSegment(segment: TimelineSegment, anchor: PlayAnchor): void {
+        const segmentEnd = segment.start + segment.buffer.duration;
+        if (this.started.has(segment) || segmentEnd <= anchor.position) return;
+
+        let startTime = contextTimeAt(anchor, Math.max(segment.start, anchor.position));
+        let offset = Math.max(0, anchor.position - segment.start);
+
+        const now = Tone.immediate();
+        if (startTime > now + SCHEDULE_HORIZON) return;
+        if (startTime < now) {
+            offset += (now - startTime) * anchor.rate;
+            startTime = now;
+        }
+        if (offset >= segment.buffer.duration) return;
+
+        const source = this.createSource(segment.buffer, this.sources, this.getDeckGain());
+        source.playbackRate.value = anchor.rate;
+        source.start(startTime, offset);
+        if (this.pendingPause) {
+            source.stop(this.pendingPause.contextTime);
+        }
+        this.started.set(segment, { source, startTime });
+    }
+
+    /**
+     * Start the segments that have come within the schedule horizon
+     */
+    private scheduleAhead(): void {
+        const anchor = this.playAnchor;
+        if (!anchor) return;
+        for (const segment of this.segments) {
+            this.startSegment(segment, anchor);
+        }
+    }
+
+    /**
+     * Start the playing deck over from an anchor, e.g. after its timing changed
+     */
+    private restart(anchor: PlayAnchor): void {
+        this.stopSources();
+        this.playAnchor = anchor;
+        this.scheduleAhead();
+        // A pending transition takes the place of the track's end
+        if (!this.transition) {
+            this.scheduleEnd(anchor);
+        }
+    }
+
+    /**
+     * Create a source on a deck that removes itself once it has played
+     */
+    private createSource(buffer: Tone.ToneAudioBuffer, sources: Set<Tone.ToneBufferSource>, gain: Tone.Gain): Tone.ToneBufferSource {
+        const source = new Tone.ToneBufferSource(buffer).connect(gain);
+        source.onended = () => {
+            sources.delete(source);
+            source.dispose();
+        };
+        sources.add(source);
+        return source;
+    }
+
+    private getDeckGain(): Tone.Gain {
+        if (!this.deckGain) {
+            this.deckGain = new Tone.Gain(1).connect(this.getOutput());
+        }
+        return this.deckGain;
+    }
+
+    private getOutput(): Tone.Gain {
+        if (!this.output) {
+            this.output = new Tone.Gain(this.volume);
+            this.connectOutput(this.output);
+        }
+        return this.output;
+    }
+
+    /**
+     * Route the output to the speakers, through a split/merge stage unless the role is plain stereo
+     * The selected channel mix comes out of both of this device's speakers
+     */
+    private connectOutput(output: Tone.Gain): void {
+        output.disconnect();
+        for (const node of this.router) {
+            node.dispose();
+        }
+        this.router = [];
+
+        const gains = CHANNEL_ROUTING[this.channelRole];
+        if (!gains) {
+            output.toDestination();
+            return;
+        }
+
+        // Upmix mono tracks so both sides of the split carry the signal
+        output.channelCount = 2;
+        output.channelCountMode = 'explicit';
+
+        const split = new Tone.Split(2);
+        const left = new Tone.Gain(gains[0]);
+        const right = new Tone.Gain(gains[1]);
+        const merge = new Tone.Merge(2).toDestination();
+        output.connect(split);
+        split.connect(left, 0, 0);
+        split.connect(right, 1, 0);
+        for (const side of [left, right]) {
+            side.connect(merge, 0, 0);
+            side.connect(merge, 0, 1);
+        }
+        this.router = [split, left, right, merge];
+    }
+
+    /**
+     * Play only part of the mix on this device (see CHANNEL_ROUTING)
+     */
+    setChannelRole(role: ChannelRole): void {
+        if (role === this.channelRole) return;
+        this.channelRole = role;
+        if (this.output) {
+            this.connectOutput(this.output);
+        }
+        console.log(`[AudioEngine] Channel role: ${role}`);
+    }
+
+    /**
+     * Set the output volume from a fader position (0-1)
+     * The fader is squared so it feels even across its travel
+     */
+    setVolume(volume: number, muted: boolean): void {
+        const position = Math.max(0, Math.min(1, volume));
+        this.volume = muted ? 0 : position * position;
+        this.output?.gain.rampTo(this.volume, VOLUME_RAMP);
+    }
+
+    /**
+     * Compensate for delay added after the engine (e.g. a Bluetooth speaker) by playing that much earlier
+     * Playback that's already running shifts over to match
+     */
+    setLatencyTrim(ms: number): void {
+        const trim = ms / 1000;
+        const shift = trim - this.latencyTrim;
+        this.latencyTrim = trim;
+        if (shift === 0 || !this.playAnchor) return;
+
+        // Move the current track, and a handover or pause that's already lined up, by the change
+        const transition = this.transition;
+        const pendingPause = this.pendingPause;
+        this.cancelPause();
+        this.cancelTransition();
+        this.restart({ ...this.playAnchor, contextTime: this.playAnchor.contextTime - shift });
+        if (transition && this.standby?.id === transition.id) {
+            const contextTime = Math.max(Tone.immediate(), transition.contextTime - shift);
+            this.startTransition(this.standby, contextTime, transition.syncedTime, transition.crossfade);
+        }
+        if (pendingPause) {
+            this.pauseAt(Math.max(Tone.immediate(), pendingPause.contextTime - shift), pendingPause.position);
+        }
+        console.log(`[AudioEngine] Latency trim: ${ms}ms`);
+    }
+
+    /**
+     * Play the calibration chirp straight to the speakers at a synchronized time
+     * Bypasses the mixer and latency trim, so what gets measured is the delay the browser doesn't know about
+     */
+    playCalibrationChirp(startTime: number, clockOffset: number): void {
+        const contextTime = Math.max(Tone.immediate(), this.toContextTime(startTime, clockOffset));
+        const buffer = Tone.ToneAudioBuffer.fromArray(generateChirp(Tone.getContext().sampleRate));
+        const source = new Tone.ToneBufferSource(buffer).toDestination();
+        source.onended = () => {
+            source.dispose();
+            buffer.dispose();
+        };
+        source.start(contextTime);
+    }
+
+    /**
+     * Start the standby track at a synchronized time on the second deck
+     * With a crossfade both decks follow the same equal-power curves, so every device fades identically
+     * @param startTime - The synchronized time the next track starts
+     * @param clockOffset - The local clock offset to convert to local time
+     * @param crossfade - Seconds the tracks overlap, 0 for gapless
+     */
+    scheduleTransition(id: string, startTime: number, clockOffset: number, crossfade: number): boolean {
+        const standby = this.standby;
+        if (standby?.id !== id) return false;
+
+        const contextTime = this.toContextTime(startTime, clockOffset) - this.latencyTrim;
+        const delay = contextTime - Tone.immediate();
+        if (delay <= 0) {
+            console.warn('[AudioEngine] Transition arrived too late to schedule');
+            return false;
+        }
+
+        this.cancelTransition();
+        this.startTransition(standby, contextTime, startTime, crossfade);
+
+        return true;
+    }
+
+    /**
+     * Start the standby track on the second deck at an AudioContext instant, fading the decks over if asked
+     */
+    private startTransition(standby: StandbyTrack, contextTime: number, syncedTime: number, crossfade: number): void {
+        // The handover takes the place of the current track's end
+        this.clearEndTimer();
+
+        const delay = Math.max(0, contextTime - Tone.immediate());
+        const fade = Math.min(crossfade, standby.buffer.duration);
+        const segment: TimelineSegment = { start: 0, buffer: standby.buffer };
+        const deck: Deck = {
+            segments: [segment],
+            sources: new Set(),
+            started: new Map(),
+            gain: new Tone.Gain(fade > 0 ? 0 : 1).connect(this.getOutput()),
+        };
+        const source = this.createSource(standby.buffer, deck.sources, deck.gain);
+        source.start(contextTime, 0);
+        deck.started.set(segment, { source, startTime: contextTime });
+
+        if (fade > 0) {
+            deck.gain.gain.setValueCurveAtTime(fadeCurve('in'), contextTime, fade);
+            this.getDeckGain().gain.setValueCurveAtTime(fadeCurve('out'), contextTime, fade);
+        }
+
+        this.transition = {
+            id: standby.id,
+            contextTime,
+            syncedTime,
+            crossfade: fade,
+            deck,
+            timer: setTimeout(() => this.completeTransition(), delay * 1000),
+        };
+        console.log(`[AudioEngine] Transition to ${standby.id.slice(0, 12)} in ${(delay * 1000).toFixed(1)}ms, crossfade ${fade}s`);
+    }
+
+    /**
+     * Make the second deck the playing one once the next track has started
+     * The previous deck stays around as the tail until its fade-out is over
+     */
+    private completeTransition(): void {
+        const transition = this.transition;
+        if (!transition) return;
+        this.transition = null;
+
+        this.disposeTail();
+        const fadeEnd = transition.contextTime + transition.crossfade;
+        for (const source of this.sources) {
+            source.stop(fadeEnd);
+        }
+        this.tail = { segments: this.segments, sources: this.sources, started: this.started, gain: this.getDeckGain() };
+        this.tailTimer = setTimeout(() => this.disposeTail(), Math.max(0, fadeEnd - Tone.immediate()) * 1000 + 100);
+
+        const buffer = transition.deck.segments[0].buffer;
+        this.standby = null;
+        this.segments = transition.deck.segments;
+        this.sources = transition.deck.sources;
+        this.started = transition.deck.started;
+        this.deckGain = transition.deck.gain;
+        this.decoded = buffer.get() ?? null;
+        this.trackId = transition.id;
+        this.duration = buffer.duration;
+        this.playAnchor = { contextTime: transition.contextTime, position: 0, rate: 1 };
+        this.syncAnchor = { syncedTime: transition.syncedTime, position: 0 };
+        this.isReady = true;
+        this.scheduleEnd(this.playAnchor);
+        console.log(`[AudioEngine] Transitioned to ${transition.id.slice(0, 12)}`);
+    }
+
+    /**
+     * Call off a transition that hasn't started yet, keeping the standby track ready
+     */
+    private cancelTransition(): void {
+        const transition = this.transition;
+        if (!transition) return;
+        this.transition = null;
+
+        clearTimeout(transition.timer);
+        releaseSources(transition.deck.sources);
+        transition.deck.gain.dispose();
+
+        // Undo the fade-out and give the current track its end back
+        if (this.deckGain) {
+            this.deckGain.gain.cancelScheduledValues(0);
+            this.deckGain.gain.value = 1;
+        }
+        if (this.playAnchor) {
+            this.scheduleEnd(this.playAnchor);
+        }
+        console.log(`[AudioEngine] Cancelled transition to ${transition.id.slice(0, 12)}`);
+    }
+
+    /**
+     * Release the previous track's deck, cutting its fade-out short if it's still running
+     */
+    private disposeTail(): void {
+        if (this.tailTimer) {
+            clearTimeout(this.tailTimer);
+            this.tailTimer = null;
+        }
+
+        const tail = this.tail;
+        if (!tail) return;
+        this.tail = null;
+
+        releaseSources(tail.sources);
+        tail.gain.dispose();
+        for (const segment of tail.segments) {
+            segment.buffer.dispose();
+        }
+    }
+
+    /**
+     * Track the engine has loaded (or switched to by transition)
+     */
+    getLoadedId(): string | null {
+        return this.trackId;
+    }
+
+    /**
+     * Track a scheduled transition is about to switch to
+     */
+    getTransitionId(): string | null {
+        return this.transition?.id ?? null;
+    }
+
+    /**
+     * Seconds until the current track plays out, null when it isn't playing
+     */
+    getTimeRemaining(): number | null {
+        if (!this.playAnchor) return null;
+        return contextTimeAt(this.playAnchor, this.duration) - Tone.immediate();
+    }
+
+    /**
+     * Seconds of the loaded track decoded without a gap from the play position (or from where it will start),
+     * and whether that reaches the end of the track
+     */
+    getBufferState(): { ahead: number; toEnd: boolean } {
+        const position = this.getCurrentTime();
+        let end = position;
+        for (const segment of this.segments) {
+            // Segment boundaries are rounded to samples, so allow a hair between them
+            if (segment.start > end + SEGMENT_JOIN_TOLERANCE) break;
+            end = Math.max(end, segment.start + segment.buffer.duration);
+        }
+        return {
+            ahead: Math.max(0, end - position),
+            toEnd: this.segments.length > 0 && end >= this.duration - SEGMENT_JOIN_TOLERANCE,
+        };
+    }
+
+    /**
+     * Compare where playback actually is with where the shared clock says it should be, and close the gap
+     * Small errors are made up by nudging the playback rate, large ones by jumping to the right position
+     * Returns the error before correcting (ms, positive when ahead), null when there's nothing to measure
+     * @param clockOffset - The local clock offset to convert to local time
+     */
+    correctDrift(clockOffset: number): number | null {
+        const anchor = this.playAnchor;
+        const target = this.syncAnchor;
+        const now = Tone.immediate();
+        if (!anchor || !target || now < anchor.contextTime) return null;
+
+        // What's leaving the speaker right now, against what the shared clock says should be
+        const syncedNow = this.toSyncedTime(now, clockOffset) + this.latencyTrim * 1000;
+        const expected = target.position + (syncedNow - target.syncedTime) / 1000;
+        const error = positionAt(anchor, now) - expected;
+
+        if (Math.abs(error) > DRIFT_RESYNC_THRESHOLD) {
+            if (expected < this.duration) {
+                console.log(`[AudioEngine] Off by ${(error * 1000).toFixed(1)}ms, resyncing`);
+                this.restart({ contextTime: now, position: Math.max(0, expected), rate: 1 });
+            }
+        } else if (Math.abs(error) > DRIFT_DEADBAND) {
+            this.setPlaybackRate(1 - Math.max(-MAX_RATE_NUDGE, Math.min(MAX_RATE_NUDGE, error / DRIFT_CATCH_UP)));
+        } else {
+            this.setPlaybackRate(1);
+        }
+
+        return error * 1000;
+    }
+
+    /**
+     * Change the playing deck's rate from now on, keeping the timeline continuous
+     */
+    private setPlaybackRate(rate: number): void {
+        const anchor = this.playAnchor;
+        if (!anchor || anchor.rate === rate) return;
+
+        const now = Tone.immediate();
+        const next: PlayAnchor = { contextTime: now, position: positionAt(anchor, now), rate };
+        this.playAnchor = next;
+
+        for (const [segment, { source, startTime }] of this.started) {
+            if (startTime > now) {
+                // Started ahead at the old rate, it would come in off the timeline
+                this.started.delete(segment);
+                this.sources.delete(source);
+                releaseSource(source);
+            } else {
+                source.playbackRate.setValueAtTime(rate, now);
             }
         }
+        this.scheduleAhead();
+        if (!this.transition) {
+            this.scheduleEnd(next);
+        }
+    }
+
+    /**
+     * Notify listeners once playback runs past the end of the track
+     */
+    private scheduleEnd(anchor: PlayAnchor): void {
+        this.clearEndTimer();
+        const remaining = contextTimeAt(anchor, this.duration) - Tone.immediate();
+
+        this.endTimer = setTimeout(() => {
+            this.endTimer = null;
+            if (this.playAnchor !== anchor) return;
+
+            this.stopSources();
+            this.playAnchor = null;
+            this.syncAnchor = null;
+            this.heldPosition = this.duration;
+            console.log('[AudioEngine] Track ended');
+            this.endedListeners.forEach(listener => {
+                listener();
+            });
+        }, Math.max(0, remaining * 1000));
+    }
+
+    private clearEndTimer(): void {
+        if (this.endTimer) {
+            clearTimeout(this.endTimer);
+            this.endTimer = null;
+        }
+    }
+
+    /**
+     * Subscribe to the track playing through to its end
+     * Returns an unsubscribe function
+     */
+    onEnded(listener: () => void): () => void {
+        this.endedListeners.add(listener);
+        return () => {
+            this.endedListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Follow the playback position, e.g. to draw a progress bar
+     * The listener hears the current position right away and then every POSITION_INTERVAL
+     * Returns an unsubscribe function
+     */
+    onPositionChange(listener: (position: number) => void): () => void {
+        this.positionListeners.add(listener);
+        listener(this.getCurrentTime());
+
+        if (!this.positionTimer) {
+            this.positionTimer = setInterval(() => {
+                const position = this.getCurrentTime();
+                this.positionListeners.forEach(positionListener => {
+                    positionListener(position);
+                });
+            }, POSITION_INTERVAL);
+        }
+
+        return () => {
+            this.positionListeners.delete(listener);
+            if (this.positionListeners.size === 0 && this.positionTimer) {
+                clearInterval(this.positionTimer);
+                this.positionTimer = null;
+            }
+        };
+    }
+
+    /**
+     * Stop every scheduled or playing segment
+     */
+    private stopSources(): void {
+        this.clearEndTimer();
+        this.disposeTail();
+        releaseSources(this.sources);
+        this.started.clear();
+    }
+
+    /**
+     * Drop the current timeline and start an empty one
+     */
+    private resetTimeline(trackId: string | null, duration: number): void {
+        this.cancelPause();
+        this.cancelTransition();
+        this.stopSources();
+        for (const segment of this.segments) {
+            segment.buffer.dispose();
+        }
+        this.segments = [];
+        this.decoded = null;
+        this.trackId = trackId;
+        this.duration = duration;
+        this.playAnchor = null;
+        this.syncAnchor = null;
+        this.heldPosition = 0;
+        this.isReady = false;
+    }
+
+    /**
+     * Pause at a synchronized time, holding the position the room agreed on rather than wherever
+     * this device happens to be, so pause and resume cycles never add up to an offset
+     * @param pauseTime - The synchronized time to pause at
+     * @param position - Track position at pauseTime (seconds)
+     * @param clockOffset - The local clock offset to convert to local time
+     */
+    schedulePause(pauseTime: number, position: number, clockOffset: number = 0): void {
+        this.pauseAt(this.toContextTime(pauseTime, clockOffset) - this.latencyTrim, position);
+    }
+
+    /**
+     * Stop every source at a context time and hold a position from then on
+     */
+    private pauseAt(contextTime: number, position: number): void {
+        const now = Tone.immediate();
+        const held = Math.max(0, Math.min(this.duration, position));
+
+        if (!this.playAnchor || contextTime <= now) {
+            this.pause();
+            this.heldPosition = held;
+            return;
+        }
+
+        this.cancelPause();
+        this.cancelTransition();
+        for (const source of this.sources) {
+            source.stop(contextTime);
+        }
+        const pause: PendingPause = {
+            contextTime,
+            position: held,
+            timer: setTimeout(() => {
+                this.pendingPause = null;
+                this.pause();
+                this.heldPosition = pause.position;
+            }, (contextTime - now) * 1000),
+        };
+        this.pendingPause = pause;
+        console.log(`[AudioEngine] Scheduled pause in ${((contextTime - now) * 1000).toFixed(1)}ms at position ${held.toFixed(2)}s`);
+    }
+
+    /**
+     * Jump to a position at a synchronized time, crossfading briefly from the old position
+     * When nothing is playing it only moves where playback will resume from; a pause on its way
+     * still happens at its own instant, holding wherever the jump has got to by then
+     * @param startTime - The synchronized time the new position plays from
+     * @param position - Position to jump to (seconds)
+     * @param clockOffset - The local clock offset to convert to local time
+     */
+    scheduleSeek(startTime: number, position: number, clockOffset: number = 0): void {
+        const target = Math.max(0, Math.min(this.duration, position));
+        if (!this.playAnchor) {
+            this.cancelPause();
+            this.heldPosition = target;
+            return;
+        }
+
+        const contextTime = Math.max(Tone.immediate(), this.toContextTime(startTime, clockOffset) - this.latencyTrim);
+        const pause = this.pendingPause;
+        if (pause && pause.contextTime <= contextTime) {
+            // Paused by the time of the jump, so it only moves where playback resumes from
+            pause.position = target;
+            return;
+        }
+
+        this.cancelPause();
+        this.cancelTransition();
+
+        // The old position plays on until the jump and then fades out as the tail
+        this.disposeTail();
+        const fadeEnd = contextTime + SEEK_CROSSFADE;
+        const fading = this.getDeckGain();
+        fading.gain.cancelAndHoldAtTime(contextTime);
+        fading.gain.setValueCurveAtTime(fadeCurve('out'), contextTime, SEEK_CROSSFADE);
+        for (const source of this.sources) {
+            source.stop(fadeEnd);
+        }
+        // The segments stay on the timeline, so the tail mustn't dispose them
+        this.tail = { segments: [], sources: this.sources, started: this.started, gain: fading };
+        this.tailTimer = setTimeout(() => this.disposeTail(), Math.max(0, fadeEnd - Tone.immediate()) * 1000 + 100);
+
+        this.sources = new Set();
+        this.started = new Map();
+        this.deckGain = new Tone.Gain(0).connect(this.getOutput());
+        this.deckGain.gain.setValueCurveAtTime(fadeCurve('in'), contextTime, SEEK_CROSSFADE);
+
+        this.playAnchor = { contextTime, position: target, rate: 1 };
+        this.syncAnchor = { syncedTime: startTime, position: target };
+        this.scheduleAhead();
+        this.scheduleEnd(this.playAnchor);
+        if (pause) {
+            this.pauseAt(pause.contextTime, target + (pause.contextTime - contextTime));
+        }
+        console.log(`[AudioEngine] Scheduled seek to ${target.toFixed(2)}s in ${((contextTime - Tone.immediate()) * 1000).toFixed(1)}ms`);
     }
 
     /**
      * Pause playback
      */
     pause(): void {
-        if (this.player) {
-            this.player.stop();
+        this.cancelPause();
+        this.cancelTransition();
+        if (this.playAnchor) {
+            this.heldPosition = this.getCurrentTime();
+            this.stopSources();
+            this.playAnchor = null;
+            this.syncAnchor = null;
             console.log('[AudioEngine] Paused');
         }
     }
@@ -117,19 +1016,30 @@ export class AudioEngine {
      * Stop playback and reset
      */
     stop(): void {
-        this.cancelScheduled();
-        if (this.player) {
-            this.player.stop();
+        this.cancelPause();
+        this.cancelTransition();
+        this.heldPosition = 0;
+        if (this.playAnchor) {
+            this.stopSources();
+            this.playAnchor = null;
+            this.syncAnchor = null;
             console.log('[AudioEngine] Stopped');
         }
     }
 
     /**
-     * Seek to position
+     * Seek to position, or move where playback will resume from when nothing is playing
      */
     seek(position: number): void {
-        if (this.player) {
-            this.player.seek(position);
+        this.cancelPause();
+        this.cancelTransition();
+        const target = Math.max(0, Math.min(this.duration, position));
+        if (this.playAnchor) {
+            // A local jump has nothing on the shared clock to be measured against
+            this.syncAnchor = null;
+            this.restart({ contextTime: Tone.immediate(), position: target, rate: 1 });
+        } else {
+            this.heldPosition = target;
         }
     }
 
@@ -137,28 +1047,61 @@ export class AudioEngine {
      * Get current playback state
      */
     getState(): Tone.PlaybackState {
-        return this.player?.state || 'stopped';
+        return this.playAnchor ? 'started' : 'stopped';
     }
 
     /**
      * Get buffer duration
      */
     getDuration(): number {
-        return this.buffer?.duration || 0;
+        return this.duration;
     }
 
     /**
-     * Get current playback position (approximate)
-     * This is used for sync-on-join to report where playback currently is
+     * Get current playback position (seconds)
+     * Follows the audio clock from where the timeline was anchored, so it holds still until a
+     * scheduled start and accounts for rate nudges; when nothing plays it's where playback stopped
      */
     getCurrentTime(): number {
-        if (!this.player || this.player.state !== 'started') {
-            return 0;
+        const anchor = this.playAnchor;
+        if (!anchor) {
+            return this.heldPosition;
         }
-        // Tone.js doesn't expose current time directly, but we can track it
-        // For now, return 0 - the schedulePlay will handle the offset
-        // TODO: Implement proper position tracking with Transport
-        return 0;
+        return Math.min(this.duration, positionAt(anchor, Math.max(Tone.immediate(), anchor.contextTime)));
+    }
+
+    /**
+     * Track position at a synchronized time, going by the shared clock's anchor where there is one
+     * Before a scheduled start it's the start position; when nothing plays it's the held position
+     * @param clockOffset - The local clock offset to convert to local time
+     */
+    getPositionAt(syncedTime: number, clockOffset: number = 0): number {
+        const target = this.syncAnchor;
+        const anchor = this.playAnchor;
+        let position = this.heldPosition;
+        if (anchor && target) {
+            position = target.position + Math.max(0, syncedTime - target.syncedTime) / 1000;
+        } else if (anchor) {
+            const contextTime = this.toContextTime(syncedTime, clockOffset) - this.latencyTrim;
+            position = positionAt(anchor, Math.max(anchor.contextTime, contextTime));
+        }
+        return Math.max(0, Math.min(this.duration, position));
+    }
+
+    /**
+     * Position playback should resume from: the agreed hold position while a pause is on its way,
+     * otherwise the current position
+     */
+    getResumePosition(): number {
+        return this.pendingPause?.position ?? this.getCurrentTime();
+    }
+
+    /**
+     * Where the shared clock says the track is: at syncedTime it's at position
+     * Null when playback wasn't started against the shared clock, or nothing is playing
+     */
+    getSyncAnchor(): { syncedTime: number; position: number } | null {
+        return this.syncAnchor ? { ...this.syncAnchor } : null;
     }
 
     /**
@@ -169,30 +1112,109 @@ export class AudioEngine {
     }
 
     /**
-     * Cancel scheduled playback
+     * Call off a pause that hasn't happened yet
      */
-    private cancelScheduled(): void {
-        if (this.scheduledEventId !== null) {
-            Tone.getTransport().clear(this.scheduledEventId);
-            this.scheduledEventId = null;
+    private cancelPause(): void {
+        if (this.pendingPause) {
+            clearTimeout(this.pendingPause.timer);
+            this.pendingPause = null;
         }
     }
 
+    /**
+     * Drop the loaded track, e.g. when the queue moves on before the next one arrives
+     */
+    unload(): void {
+        this.resetTimeline(null, 0);
+    }
+
     /**
      * Clean up resources
      */
     dispose(): void {
-        this.cancelScheduled();
-        if (this.player) {
-            this.player.dispose();
-            this.player = null;
+        this.unload();
+        this.standby?.buffer.dispose();
+        this.standby = null;
+        this.deckGain?.dispose();
+        this.deckGain = null;
+        this.output?.dispose();
+        this.output = null;
+        for (const node of this.router) {
+            node.dispose();
         }
-        if (this.buffer) {
-            this.buffer.dispose();
-            this.buffer = null;
+        this.router = [];
+        this.endedListeners.clear();
+        this.positionListeners.clear();
+        if (this.positionTimer) {
+            clearInterval(this.positionTimer);
+            this.positionTimer = null;
+        }
+        if (this.tickTimer) {
+            clearInterval(this.tickTimer);
+            this.tickTimer = null;
+        }
+    }
+}
+
+/**
+ * Stop and dispose a source without it reporting back
+ */
+function releaseSource(source: Tone.ToneBufferSource): void {
+    source.onended = () => {};
+    source.stop();
+    source.dispose();
+}
+
+/**
+ * Stop and dispose a deck's sources
+ */
+function releaseSources(sources: Set<Tone.ToneBufferSource>): void {
+    for (const source of sources) {
+        releaseSource(source);
+    }
+    sources.clear();
+}
+
+/**
+ * Track position an anchor has reached by a context time
+ */
+function positionAt(anchor: PlayAnchor, contextTime: number): number {
+    return anchor.position + (contextTime - anchor.contextTime) * anchor.rate;
+}
+
+/**
+ * Context time an anchor reaches a track position
+ */
+function contextTimeAt(anchor: PlayAnchor, position: number): number {
+    return anchor.contextTime + (position - anchor.position) / anchor.rate;
+}
+
+/**
+ * Equal-power fade: the squares of the in and out curves always sum to 1,
+ * so the overall loudness holds steady through a crossfade
+ */
+function fadeCurve(direction: 'in' | 'out'): number[] {
+    return Array.from({ length: FADE_CURVE_POINTS }, (_, i) => {
+        const angle = (i / (FADE_CURVE_POINTS - 1)) * (Math.PI / 2);
+        return direction === 'in' ? Math.sin(angle) : Math.cos(angle);
+    });
+}
+
+/**
+ * Lay decoded segments end to end in one buffer at their track positions
+ */
+function stitchSegments(parts: { start: number; buffer: AudioBuffer }[], sampleRate: number): AudioBuffer {
+    const channels = Math.max(1, ...parts.map(part => part.buffer.numberOfChannels));
+    const length = Math.max(1, ...parts.map(part => Math.round(part.start * sampleRate) + part.buffer.length));
+    const stitched = new AudioBuffer({ numberOfChannels: channels, length, sampleRate });
+
+    for (const part of parts) {
+        const offset = Math.round(part.start * sampleRate);
+        for (let ch = 0; ch < part.buffer.numberOfChannels; ch++) {
+            stitched.copyToChannel(part.buffer.getChannelData(ch), ch, offset);
         }
-        this.isReady = false;
     }
+    return stitched;
 }
 
 /**
@@ -217,6 +1239,7 @@ export function chunkArrayBuffer(buffer: ArrayBuffer): Uint8Array[] {
 
 /**
  * Reassemble chunks (Uint8Array or ArrayBuffer) into a single ArrayBuffer
+ * Throws on a missing chunk - skipping it would silently corrupt the audio
  */
 export function reassembleChunks(chunks: (Uint8Array | ArrayBuffer)[]): ArrayBuffer {
     // Filter and convert chunks to Uint8Array
@@ -225,8 +1248,7 @@ export function reassembleChunks(chunks: (Uint8Array | ArrayBuffer)[]): ArrayBuf
     for (let i = 0; i < chunks.length; i++) {
         const chunk = chunks[i];
         if (chunk === undefined || chunk === null) {
-            console.warn(`[AudioEngine] Missing chunk at index ${i}`);
-            continue;
+            throw new Error(`Missing audio chunk at index ${i}`);
         }
 
         // Handle both Uint8Array and ArrayBuffer
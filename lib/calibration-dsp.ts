@@ -0,0 +1,166 @@
+/**
+ * Calibration DSP
+ * Pure signal processing for acoustic calibration: the test chirp, FFT cross-correlation
+ * and arrival detection. Works on plain sample arrays so it runs offline on recorded buffers
+ */
+
+// Test signal: an exponential sweep across the band phone speakers and microphones handle well
+export const CHIRP_DURATION = 0.4; // seconds
+export const CHIRP_START_FREQUENCY = 300; // Hz
+export const CHIRP_END_FREQUENCY = 8000; // Hz
+const CHIRP_AMPLITUDE = 0.8;
+const CHIRP_FADE = 0.005; // Raised-cosine edges so the sweep doesn't click (seconds)
+
+// Correlation peak over the noise floor needed to trust an arrival
+export const MIN_ARRIVAL_CONFIDENCE = 8;
+
+export interface Arrival {
+    offset: number; // Samples into the recording where the signal starts (sub-sample precision)
+    confidence: number; // Peak over the correlation's RMS
+}
+
+/**
+ * Exponential sine sweep from CHIRP_START_FREQUENCY to CHIRP_END_FREQUENCY
+ * Deterministic, so every device and the recorder produce the same samples at the same rate
+ */
+export function generateChirp(sampleRate: number, duration: number = CHIRP_DURATION): Float32Array {
+    const length = Math.round(duration * sampleRate);
+    const samples = new Float32Array(length);
+    const ratio = Math.log(CHIRP_END_FREQUENCY / CHIRP_START_FREQUENCY);
+    const fadeLength = Math.max(1, Math.round(CHIRP_FADE * sampleRate));
+
+    for (let i = 0; i < length; i++) {
+        const t = i / sampleRate;
+        const phase = (2 * Math.PI * CHIRP_START_FREQUENCY * duration / ratio) * (Math.exp((t / duration) * ratio) - 1);
+        const edge = Math.min(i, length - 1 - i);
+        const envelope = edge < fadeLength ? 0.5 - 0.5 * Math.cos((Math.PI * edge) / fadeLength) : 1;
+        samples[i] = CHIRP_AMPLITUDE * envelope * Math.sin(phase);
+    }
+
+    return samples;
+}
+
+/**
+ * In-place iterative radix-2 FFT (length must be a power of two)
+ * @param inverse - Run the inverse transform, scaled by 1/n
+ */
+export function fft(re: Float64Array, im: Float64Array, inverse: boolean = false): void {
+    const n = re.length;
+    if (n !== im.length || (n & (n - 1)) !== 0) {
+        throw new Error(`FFT length must be a power of two, got ${n}`);
+    }
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) {
+            j ^= bit;
+        }
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+        const stepRe = Math.cos(angle);
+        const stepIm = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let wRe = 1;
+            let wIm = 0;
+            for (let k = 0; k < size / 2; k++) {
+                const a = start + k;
+                const b = a + size / 2;
+                const tRe = re[b] * wRe - im[b] * wIm;
+                const tIm = re[b] * wIm + im[b] * wRe;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+                const nextRe = wRe * stepRe - wIm * stepIm;
+                wIm = wRe * stepIm + wIm * stepRe;
+                wRe = nextRe;
+            }
+        }
+    }
+
+    if (inverse) {
+        for (let i = 0; i < n; i++) {
+            re[i] /= n;
+            im[i] /= n;
+        }
+    }
+}
+
+/**
+ * Cross-correlation of a recording with a reference signal, at every lag where the
+ * reference fits inside the recording: result[k] = sum(recording[k + i] * reference[i])
+ */
+export function crossCorrelate(recording: Float32Array, reference: Float32Array): Float32Array {
+    const lags = recording.length - reference.length + 1;
+    if (lags <= 0) return new Float32Array(0);
+
+    let size = 1;
+    while (size < recording.length + reference.length) {
+        size <<= 1;
+    }
+
+    const recRe = new Float64Array(size);
+    const recIm = new Float64Array(size);
+    const refRe = new Float64Array(size);
+    const refIm = new Float64Array(size);
+    recRe.set(recording);
+    refRe.set(reference);
+    fft(recRe, recIm);
+    fft(refRe, refIm);
+
+    // Recording times the conjugate of the reference
+    for (let i = 0; i < size; i++) {
+        const re = recRe[i] * refRe[i] + recIm[i] * refIm[i];
+        const im = recIm[i] * refRe[i] - recRe[i] * refIm[i];
+        recRe[i] = re;
+        recIm[i] = im;
+    }
+    fft(recRe, recIm, true);
+
+    return Float32Array.from(recRe.subarray(0, lags));
+}
+
+/**
+ * Find where a reference signal starts in a recording
+ * Returns null when nothing stands out clearly enough from the noise
+ */
+export function findArrival(recording: Float32Array, reference: Float32Array): Arrival | null {
+    const correlation = crossCorrelate(recording, reference);
+    if (correlation.length === 0) return null;
+
+    let peak = 0;
+    let sumSquares = 0;
+    for (let i = 0; i < correlation.length; i++) {
+        sumSquares += correlation[i] * correlation[i];
+        if (Math.abs(correlation[i]) > Math.abs(correlation[peak])) {
+            peak = i;
+        }
+    }
+
+    const rms = Math.sqrt(sumSquares / correlation.length);
+    const confidence = rms > 0 ? Math.abs(correlation[peak]) / rms : 0;
+    if (confidence < MIN_ARRIVAL_CONFIDENCE) return null;
+
+    return { offset: peak + interpolatePeak(correlation, peak), confidence };
+}
+
+/**
+ * Sub-sample position of a peak from a parabola through it and its neighbours (-0.5 to 0.5)
+ */
+function interpolatePeak(values: Float32Array, index: number): number {
+    if (index === 0 || index === values.length - 1) return 0;
+
+    const left = Math.abs(values[index - 1]);
+    const center = Math.abs(values[index]);
+    const right = Math.abs(values[index + 1]);
+    const denominator = left - 2 * center + right;
+    return denominator === 0 ? 0 : (0.5 * (left - right)) / denominator;
+}
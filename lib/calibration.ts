@@ -0,0 +1,183 @@
+/**
+ * Calibration
+ * Host-side acoustic calibration: the host and then each guest play the test chirp in turn
+ * at scheduled times while the host's microphone records. How much later each guest's chirp
+ * arrives than the host's own becomes that guest's latency trim
+ */
+
+import { audioEngine } from './audio-engine';
+import { CHIRP_DURATION, findArrival, generateChirp } from './calibration-dsp';
+import { clampLatencyTrim } from './latency-trim';
+import { peerManager } from './peer-manager';
+import type { ConnectedPeer } from './store';
+import { localNow } from './sync-engine';
+
+// Time for CALIBRATION_PLAY to reach the guests before the first chirp is due (ms)
+const CALIBRATION_LEAD = 1000;
+
+// Time set aside for each device's chirp and its output delay (ms)
+const CALIBRATION_SLOT = 1500;
+
+// How far ahead of its scheduled time a chirp may show up, e.g. from clock error (seconds)
+const EARLY_MARGIN = 0.2;
+
+// Recorder block size (frames)
+const RECORDER_BLOCK = 4096;
+
+export interface CalibrationResult {
+    peerId: string;
+    trim: number | null; // ms applied to the guest, null when its chirp wasn't heard
+}
+
+interface Recording {
+    samples: Float32Array;
+    startTime: number; // localNow() of the first sample
+    sampleRate: number;
+}
+
+interface Recorder {
+    stop: () => Recording;
+}
+
+/**
+ * Record the microphone into memory on a context of its own
+ * The first block's timestamp is only approximate, but the error is the same for every chirp
+ * in the run, so it cancels out when guests are measured against the host
+ */
+async function startRecording(): Promise<Recorder> {
+    // Created before awaiting, while the click that started calibration still counts as a user gesture
+    const context = new AudioContext();
+    let stream: MediaStream;
+    try {
+        stream = await navigator.mediaDevices.getUserMedia({
+            audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+        });
+    } catch (error) {
+        await context.close();
+        throw error;
+    }
+
+    const source = context.createMediaStreamSource(stream);
+    const processor = context.createScriptProcessor(RECORDER_BLOCK, 1, 1);
+    const blocks: Float32Array[] = [];
+    let startTime: number | null = null;
+
+    processor.onaudioprocess = (event) => {
+        startTime ??= localNow() - event.inputBuffer.duration * 1000;
+        blocks.push(new Float32Array(event.inputBuffer.getChannelData(0)));
+    };
+    source.connect(processor);
+    // Some browsers only run a processor that's connected to the output (it writes silence)
+    processor.connect(context.destination);
+
+    return {
+        stop: () => {
+            processor.disconnect();
+            source.disconnect();
+            stream.getTracks().forEach(track => {
+                track.stop();
+            });
+            context.close();
+
+            const samples = new Float32Array(blocks.reduce((sum, block) => sum + block.length, 0));
+            let offset = 0;
+            for (const block of blocks) {
+                samples.set(block, offset);
+                offset += block.length;
+            }
+            return { samples, startTime: startTime ?? localNow(), sampleRate: context.sampleRate };
+        },
+    };
+}
+
+/**
+ * How long after its scheduled time a chirp reached the microphone (ms), null if it wasn't heard
+ * Only searches the chirp's own slot, so neighbouring chirps don't get picked up
+ */
+function measureDelay(recording: Recording, reference: Float32Array, scheduledTime: number): number | null {
+    const { samples, sampleRate } = recording;
+    const expected = (scheduledTime - recording.startTime) / 1000;
+    const from = Math.max(0, Math.round((expected - EARLY_MARGIN) * sampleRate));
+    const to = Math.min(samples.length, from + Math.round((CALIBRATION_SLOT / 1000) * sampleRate));
+
+    const arrival = findArrival(samples.subarray(from, to), reference);
+    if (!arrival) return null;
+
+    return ((from + arrival.offset) / sampleRate - expected) * 1000;
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+}
+
+export class Calibrator {
+    private running = false;
+
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Measure every guest against the host and apply the results as latency trims
+     * @param onProgress - Status text for the UI as the run goes on
+     */
+    async run(
+        peers: Pick<ConnectedPeer, 'id' | 'name'>[],
+        onProgress?: (status: string) => void
+    ): Promise<CalibrationResult[]> {
+        if (this.running) {
+            throw new Error('Calibration is already running');
+        }
+        this.running = true;
+
+        try {
+            onProgress?.('Opening the microphone...');
+            const recorder = await startRecording();
+
+            // The host goes first, since every guest is measured against it
+            const firstStart = localNow() + CALIBRATION_LEAD;
+            const slots = [null, ...peers].map((peer, index) => ({
+                peer,
+                startTime: firstStart + index * CALIBRATION_SLOT,
+            }));
+
+            for (const slot of slots) {
+                if (slot.peer) {
+                    peerManager.sendCalibrationPlay(slot.peer.id, slot.startTime);
+                } else {
+                    audioEngine.playCalibrationChirp(slot.startTime, 0);
+                }
+            }
+
+            for (const slot of slots) {
+                onProgress?.(`Listening for ${slot.peer?.name ?? 'this device'}...`);
+                await wait(slot.startTime + CALIBRATION_SLOT - localNow());
+            }
+            const recording = recorder.stop();
+            console.log(`[Calibrator] Recorded ${(recording.samples.length / recording.sampleRate).toFixed(1)}s`);
+
+            const reference = generateChirp(recording.sampleRate, CHIRP_DURATION);
+            const hostDelay = measureDelay(recording, reference, slots[0].startTime);
+            if (hostDelay === null) {
+                throw new Error("Couldn't hear this device's own chirp - check the microphone");
+            }
+
+            return peers.map((peer, index) => {
+                const delay = measureDelay(recording, reference, slots[index + 1].startTime);
+                if (delay === null) {
+                    console.warn(`[Calibrator] No chirp heard from ${peer.name}`);
+                    return { peerId: peer.id, trim: null };
+                }
+
+                const trim = clampLatencyTrim(delay - hostDelay);
+                console.log(`[Calibrator] ${peer.name}: ${trim}ms behind the host`);
+                peerManager.setPeerLatencyTrim(peer.id, trim);
+                return { peerId: peer.id, trim };
+            });
+        } finally {
+            this.running = false;
+        }
+    }
+}
+
+export const calibrator = new Calibrator();
@@ -0,0 +1,158 @@
+/**
+ * Device Capabilities
+ * Probes what this device can decode and play, and negotiates the handshake
+ */
+
+import * as Tone from 'tone';
+import {
+    APP_BUILD,
+    type Capabilities,
+    type FeatureFlag,
+    type HandshakeStatus,
+    MIN_PROTOCOL_VERSION,
+    PROTOCOL_VERSION,
+    SUPPORTED_FEATURES,
+} from './protocol';
+
+// Codecs we might stream, with the MediaSource type string used to probe each
+const CODEC_PROBES: { mimeType: string; mseType: string }[] = [
+    { mimeType: 'audio/mpeg', mseType: 'audio/mpeg' },
+    { mimeType: 'audio/mp4', mseType: 'audio/mp4; codecs="mp4a.40.2"' },
+    { mimeType: 'audio/aac', mseType: 'audio/aac' },
+    { mimeType: 'audio/ogg', mseType: 'audio/ogg; codecs="vorbis"' },
+    { mimeType: 'audio/ogg; codecs=opus', mseType: 'audio/ogg; codecs="opus"' },
+    { mimeType: 'audio/flac', mseType: 'audio/flac' },
+];
+
+export interface HandshakeResult {
+    status: HandshakeStatus;
+    reason: string | null;
+    features: FeatureFlag[];
+}
+
+let cachedCapabilities: Promise<Capabilities> | null = null;
+
+/**
+ * Probe (once) and return this device's capabilities
+ */
+export function getLocalCapabilities(): Promise<Capabilities> {
+    if (!cachedCapabilities) {
+        cachedCapabilities = probeCapabilities();
+    }
+    return cachedCapabilities;
+}
+
+/**
+ * Probe codec support and audio output characteristics
+ */
+async function probeCapabilities(): Promise<Capabilities> {
+    const rawContext = Tone.getContext().rawContext as AudioContext;
+    const codecs: string[] = [];
+
+    for (const probe of CODEC_PROBES) {
+        if (canPlayType(probe.mimeType, probe.mseType)) {
+            codecs.push(probe.mimeType);
+        }
+    }
+
+    // PCM WAV is probed with a real decode, since it's our fallback transfer format
+    if (await canDecodeWav(rawContext)) {
+        codecs.push('audio/wav');
+    }
+
+    return {
+        protocolVersion: PROTOCOL_VERSION,
+        appBuild: APP_BUILD,
+        codecs,
+        sampleRate: rawContext.sampleRate,
+        outputLatency: rawContext.outputLatency || rawContext.baseLatency || 0,
+        features: [...SUPPORTED_FEATURES],
+    };
+}
+
+/**
+ * Check a codec via MediaSource, falling back to the media element
+ */
+function canPlayType(mimeType: string, mseType: string): boolean {
+    if (typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(mseType)) {
+        return true;
+    }
+    if (typeof document === 'undefined') {
+        return false;
+    }
+    return document.createElement('audio').canPlayType(mimeType) !== '';
+}
+
+/**
+ * Decode a tiny generated WAV file to confirm decodeAudioData works
+ */
+async function canDecodeWav(context: BaseAudioContext): Promise<boolean> {
+    const sampleCount = 64;
+    const view = new DataView(new ArrayBuffer(44 + sampleCount * 2));
+    const writeTag = (offset: number, tag: string) => {
+        for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+    };
+
+    writeTag(0, 'RIFF');
+    view.setUint32(4, 36 + sampleCount * 2, true);
+    writeTag(8, 'WAVE');
+    writeTag(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // Mono
+    view.setUint32(24, 8000, true);
+    view.setUint32(28, 16000, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeTag(36, 'data');
+    view.setUint32(40, sampleCount * 2, true);
+
+    try {
+        const decoded = await context.decodeAudioData(view.buffer);
+        return decoded.length > 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Decide whether a remote device may join (host side)
+ * Protocol mismatches are refused; build or feature differences degrade the session
+ */
+export function negotiateHandshake(local: Capabilities, remote: Capabilities): HandshakeResult {
+    if (remote.protocolVersion < MIN_PROTOCOL_VERSION) {
+        return {
+            status: 'rejected',
+            reason: `This page is running protocol v${remote.protocolVersion}, but the room needs v${MIN_PROTOCOL_VERSION} or newer. Reload the page to update.`,
+            features: [],
+        };
+    }
+
+    if (remote.protocolVersion > local.protocolVersion) {
+        return {
+            status: 'rejected',
+            reason: `The host is running an older version (protocol v${local.protocolVersion}). Ask the host to reload their page.`,
+            features: [],
+        };
+    }
+
+    const features = local.features.filter(f => remote.features.includes(f));
+    const missing = local.features.filter(f => !remote.features.includes(f));
+    const reasons: string[] = [];
+
+    if (remote.appBuild !== local.appBuild) {
+        reasons.push(`app build ${remote.appBuild} differs from host build ${local.appBuild}`);
+    }
+    if (missing.length > 0) {
+        reasons.push(`missing features: ${missing.join(', ')}`);
+    }
+    if (remote.codecs.length === 0) {
+        reasons.push('no supported audio codecs detected');
+    }
+
+    return {
+        status: reasons.length > 0 ? 'degraded' : 'accepted',
+        reason: reasons.length > 0 ? reasons.join('; ') : null,
+        features,
+    };
+}
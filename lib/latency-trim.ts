@@ -0,0 +1,65 @@
+/**
+ * Latency Trim
+ * Remembers the extra output delay of each audio output (Bluetooth speakers, receivers)
+ * in localStorage, so a phone paired to the same speaker is in time from the first second
+ */
+
+import * as Tone from 'tone';
+import { MAX_LATENCY_TRIM } from './protocol';
+
+const STORAGE_PREFIX = 'meshbeat:latency-trim:';
+
+// Falls back to one profile for whatever the browser plays through by default
+const DEFAULT_OUTPUT_KEY = 'default';
+
+/**
+ * Identify the output device audio currently goes to
+ * Uses the context's sink where the browser lets pages pick one, otherwise the default output's group
+ * (browsers hide device ids until media permission is granted, so that may be all we get)
+ */
+export async function getOutputDeviceKey(): Promise<string> {
+    const context = Tone.getContext().rawContext as AudioContext & { sinkId?: unknown };
+    if (typeof context.sinkId === 'string' && context.sinkId !== '') {
+        return `sink:${context.sinkId}`;
+    }
+
+    try {
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        const outputs = devices.filter(device => device.kind === 'audiooutput');
+        const output = outputs.find(device => device.deviceId === 'default') ?? outputs[0];
+        if (output?.groupId) {
+            return `group:${output.groupId}`;
+        }
+    } catch {
+        // No media devices API (insecure context, old browser)
+    }
+    return DEFAULT_OUTPUT_KEY;
+}
+
+export function clampLatencyTrim(ms: number): number {
+    return Math.max(-MAX_LATENCY_TRIM, Math.min(MAX_LATENCY_TRIM, Math.round(ms)));
+}
+
+/**
+ * Saved trim for an output device in ms (0 if none, or storage is unavailable)
+ */
+export function loadLatencyTrim(deviceKey: string): number {
+    try {
+        const saved = Number(localStorage.getItem(STORAGE_PREFIX + deviceKey));
+        return Number.isFinite(saved) ? clampLatencyTrim(saved) : 0;
+    } catch {
+        return 0;
+    }
+}
+
+export function saveLatencyTrim(deviceKey: string, ms: number): void {
+    try {
+        if (ms === 0) {
+            localStorage.removeItem(STORAGE_PREFIX + deviceKey);
+        } else {
+            localStorage.setItem(STORAGE_PREFIX + deviceKey, String(ms));
+        }
+    } catch {
+        // Private mode or storage full - the trim still applies for this session
+    }
+}
@@ -0,0 +1,171 @@
+/**
+ * Ogg Opus Muxer
+ * Wraps raw Opus packets (e.g. from WebCodecs AudioEncoder) in an Ogg stream decodeAudioData accepts
+ */
+
+// Opus always runs at 48kHz internally; granule positions count 48kHz samples
+export const OPUS_SAMPLE_RATE = 48000;
+
+// libopus encoder lookahead at 48kHz, used when the encoder doesn't report its own
+export const DEFAULT_OPUS_PRE_SKIP = 312;
+
+// Fixed stream serial so re-encoding the same track gives the same bytes (and cache key)
+const STREAM_SERIAL = 0x4d42;
+
+// Max lacing values in one page
+const MAX_PAGE_SEGMENTS = 255;
+
+const HEADER_TYPE_BOS = 0x02;
+const HEADER_TYPE_EOS = 0x04;
+
+export interface OpusPacket {
+    data: Uint8Array;
+    samples: number; // Duration in 48kHz samples
+}
+
+export interface OggOpusOptions {
+    channels: number;
+    preSkip: number; // Samples the decoder drops from the start
+    inputSampleRate: number; // Informational, written to OpusHead
+    totalSamples: number; // Real length, so padding in the last packet is trimmed
+}
+
+// Ogg uses the unreflected CRC-32 (poly 0x04c11db7, init 0, no final xor)
+const OGG_CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let r = n << 24;
+        for (let k = 0; k < 8; k++) {
+            r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+        }
+        table[n] = r >>> 0;
+    }
+    return table;
+})();
+
+function oggCrc(data: Uint8Array): number {
+    let crc = 0;
+    for (let i = 0; i < data.length; i++) {
+        crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+    }
+    return crc;
+}
+
+/**
+ * Read the pre-skip from an OpusHead block, as reported in AudioEncoder's decoderConfig.description
+ */
+export function readOpusPreSkip(description: AllowSharedBufferSource): number | null {
+    const bytes = ArrayBuffer.isView(description)
+        ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+        : new Uint8Array(description);
+
+    if (bytes.byteLength < 19 || String.fromCharCode(...bytes.subarray(0, 8)) !== 'OpusHead') {
+        return null;
+    }
+    return bytes[10] | (bytes[11] << 8);
+}
+
+function buildOpusHead(options: OggOpusOptions): Uint8Array {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set([0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64]); // 'OpusHead'
+    view.setUint8(8, 1); // Version
+    view.setUint8(9, options.channels);
+    view.setUint16(10, options.preSkip, true);
+    view.setUint32(12, options.inputSampleRate, true);
+    view.setInt16(16, 0, true); // Output gain
+    view.setUint8(18, 0); // Channel mapping family 0: mono or stereo
+    return head;
+}
+
+function buildOpusTags(): Uint8Array {
+    const vendor = 'MeshBeat';
+    const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+    const view = new DataView(tags.buffer);
+    tags.set([0x4f, 0x70, 0x75, 0x73, 0x54, 0x61, 0x67, 0x73]); // 'OpusTags'
+    view.setUint32(8, vendor.length, true);
+    for (let i = 0; i < vendor.length; i++) tags[12 + i] = vendor.charCodeAt(i);
+    view.setUint32(12 + vendor.length, 0, true); // No user comments
+    return tags;
+}
+
+/**
+ * Lacing values for one packet: runs of 255 and a final value under 255
+ */
+function lacingFor(length: number): number[] {
+    const values = new Array(Math.floor(length / 255)).fill(255);
+    values.push(length % 255);
+    return values;
+}
+
+function buildPage(packets: Uint8Array[], granule: number, sequence: number, headerType: number): Uint8Array {
+    const lacing = packets.flatMap(packet => lacingFor(packet.byteLength));
+    const bodySize = packets.reduce((sum, packet) => sum + packet.byteLength, 0);
+    const page = new Uint8Array(27 + lacing.length + bodySize);
+    const view = new DataView(page.buffer);
+
+    page.set([0x4f, 0x67, 0x67, 0x53]); // 'OggS'
+    view.setUint8(4, 0); // Version
+    view.setUint8(5, headerType); // Packets never span pages, so no continuation flag
+    view.setUint32(6, granule % 0x100000000, true);
+    view.setUint32(10, Math.floor(granule / 0x100000000), true);
+    view.setUint32(14, STREAM_SERIAL, true);
+    view.setUint32(18, sequence, true);
+    view.setUint32(22, 0, true); // CRC, filled in below
+    view.setUint8(26, lacing.length);
+    page.set(lacing, 27);
+
+    let offset = 27 + lacing.length;
+    for (const packet of packets) {
+        page.set(packet, offset);
+        offset += packet.byteLength;
+    }
+
+    view.setUint32(22, oggCrc(page), true);
+    return page;
+}
+
+/**
+ * Mux Opus packets into a complete Ogg Opus file
+ */
+export function muxOggOpus(packets: OpusPacket[], options: OggOpusOptions): Uint8Array {
+    const pages: Uint8Array[] = [
+        buildPage([buildOpusHead(options)], 0, 0, HEADER_TYPE_BOS),
+        buildPage([buildOpusTags()], 0, 1, 0),
+    ];
+
+    // Granules count every decoded sample, including the pre-skip the encoder's output starts with
+    const finalGranule = options.preSkip + options.totalSamples;
+    let granule = 0;
+    let pending: Uint8Array[] = [];
+    let pendingSegments = 0;
+
+    const flush = (last: boolean) => {
+        if (pending.length === 0) return;
+        // The last page's granule marks where real audio ends, trimming encoder padding
+        const pageGranule = last ? Math.min(granule, finalGranule) : granule;
+        pages.push(buildPage(pending, pageGranule, pages.length, last ? HEADER_TYPE_EOS : 0));
+        pending = [];
+        pendingSegments = 0;
+    };
+
+    for (const packet of packets) {
+        const segments = lacingFor(packet.data.byteLength).length;
+        if (pendingSegments + segments > MAX_PAGE_SEGMENTS) {
+            flush(false);
+        }
+        pending.push(packet.data);
+        pendingSegments += segments;
+        granule += packet.samples;
+    }
+    flush(true);
+
+    const size = pages.reduce((sum, page) => sum + page.byteLength, 0);
+    const file = new Uint8Array(size);
+    let offset = 0;
+    for (const page of pages) {
+        file.set(page, offset);
+        offset += page.byteLength;
+    }
+    return file;
+}
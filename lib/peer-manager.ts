@@ -7,17 +7,80 @@ import Peer from 'peerjs';
 import type { DataConnection } from 'peerjs';
 import {
     MessageType,
+    decodeMessage,
     type ProtocolMessage,
     type AudioMeta,
     type AudioChunk,
+    type AudioNack,
+    type AudioComplete,
+    type TransferResume,
+    type ChunkHave,
+    type SwarmAssign,
+    type ChunkRequest,
+    type ChunkRange,
+    type QueueUpdate,
+    type QueueAdvance,
+    type PrefetchReady,
+    type Capabilities,
     type SchedulePlay,
+    type ScheduleTransition,
+    type SetVolume,
+    type SetChannel,
+    type LatencyTrim,
+    type CalibrationPlay,
+    type ChannelRole,
+    type SchedulePause,
+    type ScheduleSeek,
     type SyncRequest,
+    type SyncResponse,
+    type SyncReport,
     type PlaybackState,
-    SCHEDULE_BUFFER
+    type Hello,
+    type Welcome,
+    type FeatureFlag,
+    SCHEDULE_BUFFER,
+    SYNC_REPORT_INTERVAL,
+    MAX_AUDIO_SIZE,
+    SEGMENT_DURATION,
+    HANDSHAKE_TIMEOUT,
+    MAX_NACK_INDICES,
+    MAX_NACK_ROUNDS,
+    MAX_HASH_RETRIES,
+    MAX_RESUME_RANGES,
+    MAX_SWARM_SOURCES,
+    RESUME_WAIT_TIMEOUT,
+    SWARM_HAVE_INTERVAL,
+    SWARM_MIN_PEERS,
+    SWARM_REQUEST_TIMEOUT
 } from './protocol';
-import { syncEngine, type SyncResult } from './sync-engine';
-import { audioEngine, chunkArrayBuffer, reassembleChunks } from './audio-engine';
-import { useMeshBeatStore, type ConnectedPeer } from './store';
+import { getLocalCapabilities, negotiateHandshake } from './capabilities';
+import { trackCache } from './track-cache';
+import { buildSegmentedPayload, orderChunksFromPosition } from './segments';
+import { SwarmCoordinator } from './swarm';
+import { encodeTrack, pickTransferCodec, type QualityTier, type TransferCodec } from './transcoder';
+import { localNow, syncEngine, type SyncResult } from './sync-engine';
+import { audioEngine } from './audio-engine';
+import { clampLatencyTrim, getOutputDeviceKey, loadLatencyTrim, saveLatencyTrim } from './latency-trim';
+import {
+    IncomingTransfer,
+    TransferIntegrityError,
+    DEFAULT_SENDER_OPTIONS,
+    BACKGROUND_SENDER_OPTIONS,
+    createChunkMessage,
+    indicesOutsideRanges,
+    prepareTransfer,
+    sendChunksWithBackpressure,
+    transferFromVerified,
+    type OutgoingTransfer,
+    type SenderOptions
+} from './transfer';
+import {
+    useMeshBeatStore,
+    DEFAULT_VOLUME,
+    type ConnectedPeer,
+    type TransferMode,
+    type VolumeSetting
+} from './store';
 import { generatePeerId } from './utils';
 
 // Public STUN/TURN servers for faster ICE negotiation
@@ -65,22 +128,98 @@ const getPeerConfig = () => {
     };
 };
 
+// Partial downloads a guest keeps in memory for resuming
+const MAX_PARTIAL_TRANSFERS = 2;
+
+// Delays between guest reconnect attempts after losing the host (ms)
+const RECONNECT_DELAYS = [500, 1000, 2000, 4000, 8000, 8000];
+
+// Time allowed for each reconnect attempt, including the handshake (ms)
+const RECONNECT_TIMEOUT = 5000;
+
+// Time allowed to open a guest-to-guest swarm link (ms)
+const SWARM_CONNECT_TIMEOUT = 5000;
+
+/**
+ * Thrown when the host refuses this device during the handshake
+ */
+export class HandshakeRejectedError extends Error {
+    constructor(reason: string) {
+        super(reason);
+        this.name = 'HandshakeRejectedError';
+    }
+}
+
+// Host: a queued file and the transfers prepared from it, one per format
+interface OutgoingTrack {
+    trackId: string | null; // Queue item
+    source: ArrayBuffer; // Original upload
+    decoded: AudioBuffer | null; // Decoded audio to re-encode from
+    name: string;
+    duration: number;
+    mimeType: string;
+    transfers: Map<string, Promise<OutgoingTransfer>>;
+}
+
+interface PendingHandshake {
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
 export class PeerManager {
     private peer: Peer | null = null;
     private peerConfig = getPeerConfig(); // Store current config instance
     private connections: Map<string, DataConnection> = new Map();
-    private audioChunks: Map<string, Uint8Array[]> = new Map(); // Binary chunks as Uint8Array for msgpack
-    private audioMeta: AudioMeta | null = null;
+    private incomingTransfers: Map<string, IncomingTransfer> = new Map(); // Guest: partial files by hash, kept across reconnects
+    private activeTransferId: string | null = null; // Guest: transfer the host is currently sending
+    private prefetchTransferId: string | null = null; // Guest: upcoming track the host is sending in the background
+    private prefetched: { meta: AudioMeta; buffer: ArrayBuffer } | null = null; // Guest: upcoming track decoded into the engine's standby slot
+    private currentTrack: OutgoingTrack | null = null; // Host: file being played, prepared once per format
+    private nextTrack: OutgoingTrack | null = null; // Host: upcoming track being prefetched
+    private senderOptions: SenderOptions = DEFAULT_SENDER_OPTIONS;
+    private loadedTransferId: string | null = null; // Guest: hash of the file currently in the audio engine
     private isInitialized = false;
     private pendingPlaybackState: PlaybackState | null = null; // Queue for playback state that arrives before audio is ready
+    private scheduledTransition: ScheduleTransition | null = null; // Guest: handover the host announced for the next track
+    private handshakeTimers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // Host: guests that haven't sent HELLO yet
+    private pendingHandshake: PendingHandshake | null = null; // Guest: waiting for the host's WELCOME
+    private guestHostId: string | null = null; // Guest: host we're (re)connecting to
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private reconnectFailure: ((error: Error) => void) | null = null; // Guest: fails the in-flight reconnect attempt
+    private resumeWaiters: Map<string, (ranges: ChunkRange[]) => void> = new Map(); // Host: guests we're expecting TRANSFER_RESUME from
+    private swarms: Map<string, SwarmCoordinator> = new Map(); // Host: who holds which chunks, per transfer
+    private hostFeatures: FeatureFlag[] = []; // Guest: features negotiated with the host
+    private seedTransfer: OutgoingTransfer | null = null; // Guest: verified file we can serve to other guests
+    private swarmConnections: Map<string, DataConnection> = new Map(); // Guest: links to other guests
+    private swarmConnecting: Map<string, Promise<DataConnection | null>> = new Map();
+    private swarmRequests: Map<number, number> = new Map(); // Guest: chunk -> when we last asked a peer for it
+    private failedSources: Set<string> = new Set(); // Guest: peers we couldn't open a link to
+    private haveTimer: ReturnType<typeof setInterval> | null = null;
+    private channelRoles: Map<string, ChannelRole> = new Map(); // Host: assignments by peer id, kept for guests that reconnect
+    private outputDeviceKey: string | null = null; // Guest: output device the latency trim is saved under
+    private outputListener: (() => void) | null = null; // Guest: reloads the trim when the output changes
+    private lastSyncReport = 0; // Guest: localNow() of the last SYNC_REPORT
 
     /**
      * Reset internal state before new initialization
      */
     private resetState(): void {
+        this.handshakeTimers.forEach(timer => {
+            clearTimeout(timer);
+        });
+        this.handshakeTimers.clear();
+        this.pendingHandshake = null;
+        this.guestHostId = null;
+        this.clearReconnect();
+        this.resumeWaiters.clear();
+        this.clearSwarmState();
         this.connections.clear();
-        this.audioChunks.clear();
-        this.audioMeta = null;
+        this.activeTransferId = null;
+        this.currentTrack = null;
+        this.nextTrack = null;
+        this.prefetchTransferId = null;
+        this.prefetched = null;
+        this.scheduledTransition = null;
         this.isInitialized = false;
         if (this.peer) {
             this.peer.destroy();
@@ -88,6 +227,34 @@ export class PeerManager {
         }
     }
 
+    /**
+     * Close guest-to-guest links and forget swarm bookkeeping
+     */
+    private clearSwarmState(): void {
+        this.stopHaveReports();
+        this.swarmConnections.forEach(conn => {
+            conn.close();
+        });
+        this.swarmConnections.clear();
+        this.swarmConnecting.clear();
+        this.swarmRequests.clear();
+        this.failedSources.clear();
+        this.swarms.clear();
+        this.seedTransfer = null;
+        this.hostFeatures = [];
+    }
+
+    /**
+     * Cancel any pending guest reconnect
+     */
+    private clearReconnect(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.reconnectFailure = null;
+    }
+
     /**
      * Retry wrapper with fast fixed delays
      */
@@ -104,6 +271,11 @@ export class PeerManager {
             } catch (error) {
                 lastError = error instanceof Error ? error : new Error(String(error));
 
+                // Retrying won't change the host's answer
+                if (error instanceof HandshakeRejectedError) {
+                    throw error;
+                }
+
                 if (attempt < maxRetries) {
                     // Fixed short delay, no exponential backoff for faster recovery
                     console.log(`[PeerManager] Retry ${attempt + 1}/${maxRetries} in ${baseDelayMs}ms...`);
@@ -187,15 +359,19 @@ export class PeerManager {
         // Reset any previous state
         this.resetState();
 
+        const capabilities = await getLocalCapabilities();
+
         return new Promise((resolve, reject) => {
             const guestId = generatePeerId();
             const CONNECTION_TIMEOUT = 3000; // 3 second timeout per attempt - fast fail
 
             this.peer = new Peer(guestId, this.peerConfig);
+            this.guestHostId = hostPeerId;
 
-            // Set up timeout for the entire connection process
+            // Set up timeout for the entire connection process, including the handshake
             const timeoutId = setTimeout(() => {
                 console.error('[PeerManager] Connection timeout');
+                this.pendingHandshake = null;
                 useMeshBeatStore.getState().setStatus('error');
                 reject(new Error('Connection timeout - host may be offline'));
             }, CONNECTION_TIMEOUT);
@@ -210,52 +386,37 @@ export class PeerManager {
                 store.setPeer(this.peer);
                 store.setStatus('connecting');
 
-                // Connect to host with binary serialization for low-latency audio
-                const conn = this.peer!.connect(hostPeerId, {
-                    metadata: { name: `Guest-${guestId.slice(-4)}` },
-                    serialization: 'binary',
-                    reliable: true,
-                });
-
-                conn.on('open', () => {
-                    clearTimeout(timeoutId); // Clear timeout on successful connection
-                    console.log('[PeerManager] Connected to host:', hostPeerId);
-                    this.connections.set(hostPeerId, conn);
-                    this.isInitialized = true;
-                    store.setStatus('connected');
-
-                    // Send peer info
-                    conn.send({
-                        type: MessageType.PEER_INFO,
-                        peerId: id,
-                        name: `Guest-${id.slice(-4)}`,
-                    });
-
-                    // Start clock sync
-                    syncEngine.startSync(conn, (result: SyncResult) => {
-                        store.setClockOffset(result.clockOffset);
-                        console.log(`[PeerManager] Sync: RTT=${result.roundTripTime.toFixed(1)}ms, Offset=${result.clockOffset.toFixed(1)}ms`);
-                    });
-
-                    this.setupDataHandler(conn);
-                    resolve();
-                });
-
-                conn.on('error', (err) => {
+                // Resolved or rejected once the host answers with WELCOME
+                this.pendingHandshake = {
+                    resolve: () => {
+                        clearTimeout(timeoutId);
+                        resolve();
+                    },
+                    reject: (error) => {
+                        clearTimeout(timeoutId);
+                        reject(error);
+                    },
+                };
+
+                this.connectToHost(hostPeerId, capabilities, (err) => {
                     clearTimeout(timeoutId);
                     console.error('[PeerManager] Connection error:', err);
                     store.setStatus('error');
                     reject(err);
                 });
+            });
 
-                conn.on('close', () => {
-                    console.log('[PeerManager] Connection closed');
-                    this.connections.delete(hostPeerId);
-                    store.setStatus('disconnected');
-                });
+            // Other guests connect to us to fetch chunks
+            this.peer.on('connection', (conn) => {
+                this.handleSwarmConnection(conn);
             });
 
             this.peer.on('error', (err) => {
+                // While reconnecting, an unreachable host just fails that attempt
+                if (this.reconnectFailure) {
+                    this.reconnectFailure(err);
+                    return;
+                }
                 clearTimeout(timeoutId);
                 console.error('[PeerManager] Guest error:', err);
                 useMeshBeatStore.getState().setStatus('error');
@@ -264,13 +425,260 @@ export class PeerManager {
         });
     }
 
+    /**
+     * Open a data connection to the host and start the handshake (guest side)
+     */
+    private connectToHost(hostPeerId: string, capabilities: Capabilities, onError: (error: Error) => void): void {
+        if (!this.peer) return;
+
+        const id = this.peer.id;
+
+        // Connect to host with binary serialization for low-latency audio
+        const conn = this.peer.connect(hostPeerId, {
+            metadata: { name: `Guest-${id.slice(-4)}` },
+            serialization: 'binary',
+            reliable: true,
+        });
+
+        conn.on('open', () => {
+            console.log('[PeerManager] Connected to host:', hostPeerId);
+            this.connections.set(hostPeerId, conn);
+            this.setupDataHandler(conn);
+
+            const hello: Hello = {
+                type: MessageType.HELLO,
+                peerId: id,
+                name: `Guest-${id.slice(-4)}`,
+                capabilities,
+            };
+            conn.send(hello);
+        });
+
+        conn.on('error', onError);
+
+        conn.on('close', () => {
+            console.log('[PeerManager] Connection closed');
+            const wasCurrent = this.connections.get(hostPeerId) === conn;
+            if (wasCurrent) {
+                this.connections.delete(hostPeerId);
+            }
+
+            const store = useMeshBeatStore.getState();
+
+            // Keep the error status if the host turned us away
+            if (store.handshakeStatus === 'rejected') {
+                return;
+            }
+
+            // An established session dropped - try to get back in and resume
+            if (wasCurrent && this.isInitialized && this.guestHostId === hostPeerId) {
+                syncEngine.stopSync(hostPeerId);
+                this.scheduleReconnect(hostPeerId, capabilities, 0);
+                return;
+            }
+
+            store.setStatus('disconnected');
+        });
+    }
+
+    /**
+     * Retry the host connection with backoff, keeping partial transfers for resume (guest side)
+     */
+    private scheduleReconnect(hostPeerId: string, capabilities: Capabilities, attempt: number): void {
+        const store = useMeshBeatStore.getState();
+
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        if (attempt >= RECONNECT_DELAYS.length) {
+            console.error('[PeerManager] Giving up reconnecting to host');
+            this.reconnectFailure = null;
+            store.setStatus('disconnected');
+            return;
+        }
+
+        store.setStatus('connecting');
+        console.log(`[PeerManager] Reconnecting in ${RECONNECT_DELAYS[attempt]}ms (attempt ${attempt + 1}/${RECONNECT_DELAYS.length})`);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (!this.peer || this.peer.destroyed || this.guestHostId !== hostPeerId) return;
+
+            if (this.peer.disconnected) {
+                this.peer.reconnect();
+            }
+
+            let settled = false;
+            const fail = (error: Error) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timeoutId);
+                this.pendingHandshake = null;
+                this.reconnectFailure = null;
+                console.warn('[PeerManager] Reconnect attempt failed:', error.message);
+
+                const conn = this.connections.get(hostPeerId);
+                this.connections.delete(hostPeerId);
+                conn?.close();
+
+                if (!(error instanceof HandshakeRejectedError)) {
+                    this.scheduleReconnect(hostPeerId, capabilities, attempt + 1);
+                }
+            };
+
+            const timeoutId = setTimeout(() => fail(new Error('Reconnect timeout')), RECONNECT_TIMEOUT);
+
+            this.reconnectFailure = fail;
+            this.pendingHandshake = {
+                resolve: () => {
+                    settled = true;
+                    clearTimeout(timeoutId);
+                    this.reconnectFailure = null;
+                    console.log('[PeerManager] Reconnected to host');
+                },
+                reject: fail,
+            };
+
+            this.connectToHost(hostPeerId, capabilities, fail);
+        }, RECONNECT_DELAYS[attempt]);
+    }
+
+    /**
+     * Handle the host's answer to our HELLO (guest side)
+     */
+    private handleWelcome(conn: DataConnection, message: Welcome): void {
+        const store = useMeshBeatStore.getState();
+        const pending = this.pendingHandshake;
+        this.pendingHandshake = null;
+
+        store.setHandshake(message.status, message.reason);
+
+        if (message.status === 'rejected') {
+            console.error('[PeerManager] Host rejected handshake:', message.reason);
+            store.setStatus('error');
+            conn.close();
+            pending?.reject(new HandshakeRejectedError(message.reason || 'The host refused the connection'));
+            return;
+        }
+
+        if (message.status === 'degraded') {
+            console.warn('[PeerManager] Joined in degraded mode:', message.reason);
+        }
+
+        this.isInitialized = true;
+        this.hostFeatures = message.features;
+        store.setStatus('connected');
+
+        // Start clock sync
+        syncEngine.startSync(conn, (result: SyncResult) => {
+            store.setClockOffset(result.clockOffset);
+            console.log(`[PeerManager] Sync: RTT=${result.roundTripTime.toFixed(1)}ms, Offset=${result.clockOffset.toFixed(1)}ms ±${result.confidence.toFixed(1)}ms, Skew=${result.skew.toFixed(1)}ppm`);
+            // Check playback against the fresh offset, keeping long mixes in step as the audio clocks drift
+            const playbackError = audioEngine.correctDrift(result.clockOffset);
+            store.setPlaybackError(playbackError);
+            this.reportSync(conn, result, playbackError);
+        });
+
+        // Pick up the trim saved for this output, and again whenever the output changes
+        this.restoreLatencyTrim();
+        if (!this.outputListener) {
+            this.outputListener = () => {
+                this.restoreLatencyTrim();
+            };
+            navigator.mediaDevices?.addEventListener('devicechange', this.outputListener);
+        }
+
+        pending?.resolve();
+    }
+
+    /**
+     * Apply the trim saved for the current output device and let the host know (guest side)
+     */
+    private async restoreLatencyTrim(): Promise<void> {
+        const key = await getOutputDeviceKey();
+        if (key !== this.outputDeviceKey) {
+            this.outputDeviceKey = key;
+            this.applyLatencyTrim(loadLatencyTrim(key));
+        }
+        this.reportLatencyTrim();
+    }
+
+    private applyLatencyTrim(ms: number): void {
+        const trim = clampLatencyTrim(ms);
+        audioEngine.setLatencyTrim(trim);
+        useMeshBeatStore.getState().setLatencyTrim(trim);
+        if (this.outputDeviceKey) {
+            saveLatencyTrim(this.outputDeviceKey, trim);
+        }
+    }
+
+    /**
+     * Tell the host how well we're in sync, at most every SYNC_REPORT_INTERVAL (guest side)
+     */
+    private reportSync(hostConn: DataConnection, result: SyncResult, playbackError: number | null): void {
+        const now = localNow();
+        if (now - this.lastSyncReport < SYNC_REPORT_INTERVAL) return;
+        this.lastSyncReport = now;
+
+        const buffer = audioEngine.getBufferState();
+        const message: SyncReport = {
+            type: MessageType.SYNC_REPORT,
+            roundTripTime: result.roundTripTime,
+            clockOffset: result.clockOffset,
+            confidence: result.confidence,
+            playbackError,
+            buffered: buffer.ahead,
+            bufferedToEnd: buffer.toEnd,
+        };
+        hostConn.send(message);
+    }
+
+    /**
+     * Keep a guest's sync report in its history (host side)
+     */
+    private handleSyncReport(conn: DataConnection, message: SyncReport): void {
+        useMeshBeatStore.getState().addPeerSyncReport(conn.peer, {
+            roundTripTime: message.roundTripTime,
+            clockOffset: message.clockOffset,
+            confidence: message.confidence,
+            playbackError: message.playbackError,
+            buffered: message.buffered,
+            bufferedToEnd: message.bufferedToEnd,
+            receivedAt: Date.now(),
+        });
+    }
+
+    private reportLatencyTrim(): void {
+        const store = useMeshBeatStore.getState();
+        const hostConn = this.connections.get(store.hostPeerId || '');
+        if (hostConn) {
+            const message: LatencyTrim = { type: MessageType.LATENCY_TRIM, trim: store.latencyTrim };
+            hostConn.send(message);
+        }
+    }
+
+    /**
+     * Adjust this device's output latency trim, saved for the current output (guest side)
+     */
+    setLatencyTrim(ms: number): void {
+        this.applyLatencyTrim(ms);
+        this.reportLatencyTrim();
+    }
+
     /**
      * Handle incoming connection (host side)
      */
     private handleIncomingConnection(conn: DataConnection): void {
         console.log('[PeerManager] Incoming connection from:', conn.peer);
 
-        conn.on('open', async () => {
+        conn.on('open', () => {
+            // A reconnecting guest may arrive before its old connection timed out
+            const previous = this.connections.get(conn.peer);
+            if (previous && previous !== conn) {
+                previous.close();
+            }
             this.connections.set(conn.peer, conn);
 
             const connectedPeer: ConnectedPeer = {
@@ -279,8 +687,21 @@ export class PeerManager {
                 connection: conn,
                 latencyOffset: 0,
                 lastPing: Date.now(),
-                status: 'connected',
+                status: 'connecting',
                 isMaster: false,
+                handshake: 'pending',
+                handshakeReason: null,
+                capabilities: null,
+                features: [],
+                rejectedMessages: 0,
+                lastRejection: null,
+                transfer: null,
+                swarm: false,
+                readyTrackId: null,
+                volume: DEFAULT_VOLUME,
+                channel: this.channelRoles.get(conn.peer) ?? 'stereo',
+                latencyTrim: 0,
+                syncHistory: [],
             };
 
             useMeshBeatStore.getState().addPeer(connectedPeer);
@@ -291,21 +712,23 @@ export class PeerManager {
 
             this.setupDataHandler(conn);
 
-            // Send current audio if available
-            const store = useMeshBeatStore.getState();
-            const audioFile = store.audioFile;
-            if (audioFile?.buffer) {
-                // Stream audio first
-                await this.streamAudioToPeer(conn, audioFile.buffer, audioFile.name, audioFile.duration);
-
-                // Then sync playback state so guest starts from where host is
-                this.sendPlaybackStateToConnection(conn);
-            }
+            // Stale tabs never send HELLO - drop them instead of letting them misbehave
+            this.handshakeTimers.set(conn.peer, setTimeout(() => {
+                console.warn('[PeerManager] Handshake timeout:', conn.peer);
+                this.handshakeTimers.delete(conn.peer);
+                conn.close();
+            }, HANDSHAKE_TIMEOUT));
         });
 
         conn.on('close', () => {
             console.log('[PeerManager] Connection closed:', conn.peer);
+            // Ignore a stale connection that was replaced by a reconnect
+            if (this.connections.get(conn.peer) !== conn) return;
+            this.clearHandshakeTimer(conn.peer);
             this.connections.delete(conn.peer);
+            this.swarms.forEach(swarm => {
+                swarm.removePeer(conn.peer);
+            });
             useMeshBeatStore.getState().removePeer(conn.peer);
         });
 
@@ -315,26 +738,179 @@ export class PeerManager {
         });
     }
 
+    /**
+     * Validate a guest's HELLO and answer with WELCOME (host side)
+     */
+    private async handleHello(conn: DataConnection, message: Hello): Promise<void> {
+        this.clearHandshakeTimer(conn.peer);
+
+        const capabilities = await getLocalCapabilities();
+        const result = negotiateHandshake(capabilities, message.capabilities);
+
+        const welcome: Welcome = {
+            type: MessageType.WELCOME,
+            status: result.status,
+            reason: result.reason,
+            features: result.features,
+            capabilities,
+        };
+        conn.send(welcome);
+
+        if (result.status === 'rejected') {
+            console.warn(`[PeerManager] Rejected ${conn.peer}: ${result.reason}`);
+            this.rejectConnection(conn);
+            return;
+        }
+
+        if (result.status === 'degraded') {
+            console.warn(`[PeerManager] ${conn.peer} joined degraded: ${result.reason}`);
+        }
+
+        const store = useMeshBeatStore.getState();
+        store.updatePeerHandshake(conn.peer, {
+            handshake: result.status,
+            handshakeReason: result.reason,
+            capabilities: message.capabilities,
+            features: result.features,
+        });
+        store.updatePeerStatus(conn.peer, 'connected');
+
+        // Read back the peer as just updated, not the snapshot from before the handshake
+        const peer = useMeshBeatStore.getState().connectedPeers.get(conn.peer);
+        if (peer) {
+            store.addPeer({ ...peer, name: message.name });
+        }
+
+        this.sendVolume(conn);
+        this.sendChannel(conn);
+
+        // Share the queue before the current track so the guest knows what it's receiving
+        conn.send(this.getQueueUpdate());
+
+        // Send current audio if available
+        const audioFile = store.audioFile;
+        if (audioFile?.buffer) {
+            // Sync playback state up front: the guest holds on to it until the first segment decodes,
+            // so it starts from where the host is without waiting for the whole file
+            if (this.peerSupports(conn.peer, 'sync-on-join')) {
+                this.sendPlaybackStateToConnection(conn);
+            }
+            await this.streamAudioToPeer(conn, audioFile.buffer, audioFile.name, audioFile.duration, audioFile.mimeType);
+        }
+
+        // And the next track, if the rest of the room is already getting it
+        if (this.nextTrack) {
+            await this.prefetchToPeer(conn, this.nextTrack);
+        }
+    }
+
+    /**
+     * Close a connection that failed the handshake, letting the WELCOME flush first
+     */
+    private rejectConnection(conn: DataConnection): void {
+        this.connections.delete(conn.peer);
+        useMeshBeatStore.getState().removePeer(conn.peer);
+        conn.close({ flush: true });
+    }
+
+    /**
+     * Cancel the pending handshake timeout for a peer
+     */
+    private clearHandshakeTimer(peerId: string): void {
+        const timer = this.handshakeTimers.get(peerId);
+        if (timer) {
+            clearTimeout(timer);
+            this.handshakeTimers.delete(peerId);
+        }
+    }
+
+    /**
+     * Check whether a peer negotiated a feature during the handshake
+     */
+    private peerSupports(peerId: string, feature: FeatureFlag): boolean {
+        const peer = useMeshBeatStore.getState().connectedPeers.get(peerId);
+        return peer?.features.includes(feature) ?? false;
+    }
+
     /**
      * Setup data message handler
      */
     private setupDataHandler(conn: DataConnection): void {
         conn.on('data', async (data) => {
-            await this.handleMessage(conn, data as ProtocolMessage);
+            const result = decodeMessage(data);
+            if (!result.ok) {
+                this.rejectMessage(conn.peer, result.reason);
+                return;
+            }
+            await this.handleMessage(conn, result.message);
         });
     }
 
+    /**
+     * Drop a malformed message and count it against the sender
+     */
+    private rejectMessage(peerId: string, reason: string): void {
+        console.warn(`[PeerManager] Rejected message from ${peerId}: ${reason}`);
+        useMeshBeatStore.getState().recordRejectedMessage(peerId, reason);
+    }
+
     /**
      * Handle incoming protocol messages
      */
     private async handleMessage(conn: DataConnection, message: ProtocolMessage): Promise<void> {
         const store = useMeshBeatStore.getState();
 
+        // Until a guest completes the handshake, the host only listens for HELLO
+        if (store.role === 'host' && store.connectedPeers.get(conn.peer)?.handshake === 'pending') {
+            if (message.type === MessageType.HELLO) {
+                await this.handleHello(conn, message);
+            } else if (message.type === MessageType.PEER_INFO) {
+                // Pre-handshake builds announce themselves with PEER_INFO
+                console.warn('[PeerManager] Legacy client without handshake:', conn.peer);
+                this.clearHandshakeTimer(conn.peer);
+                this.rejectConnection(conn);
+            }
+            return;
+        }
+
+        // Guest-to-guest links only carry chunk traffic
+        if (this.swarmConnections.get(conn.peer) === conn
+            && message.type !== MessageType.CHUNK_REQUEST
+            && message.type !== MessageType.AUDIO_CHUNK) {
+            this.rejectMessage(conn.peer, `${message.type} is not allowed on a swarm link`);
+            return;
+        }
+
+        // Only the host decides what the room plays next
+        if (store.role === 'host' && (
+            message.type === MessageType.QUEUE_UPDATE
+            || message.type === MessageType.QUEUE_ADVANCE
+            || message.type === MessageType.SCHEDULE_TRANSITION
+            || message.type === MessageType.SET_VOLUME
+            || message.type === MessageType.SET_CHANNEL
+            || message.type === MessageType.CALIBRATION_PLAY
+        )) {
+            this.rejectMessage(conn.peer, `${message.type} is only sent by the host`);
+            return;
+        }
+
         switch (message.type) {
+            case MessageType.WELCOME:
+                this.handleWelcome(conn, message as Welcome);
+                break;
+
             case MessageType.SYNC_REQUEST:
                 syncEngine.handleSyncRequest(conn, message as SyncRequest);
                 break;
 
+            case MessageType.SYNC_RESPONSE:
+                syncEngine.handleSyncResponse(conn, message as SyncResponse);
+                break;
+
+            case MessageType.SYNC_REPORT:
+                this.handleSyncReport(conn, message as SyncReport);
+                break;
+
             case MessageType.PEER_INFO:
                 // Update peer name
                 const peers = store.connectedPeers;
@@ -345,61 +921,81 @@ export class PeerManager {
                 break;
 
             case MessageType.AUDIO_META:
-                const metaMsg = message as AudioMeta;
-                this.audioMeta = metaMsg;
-                // Initialize chunk storage with tracking
-                this.audioChunks.set(conn.peer, []);
-                store.setPlaybackState('loading');
-                console.log(`[PeerManager] Receiving audio: ${metaMsg.name} (${metaMsg.totalChunks} chunks expected)`);
+                await this.handleAudioMeta(conn, message as AudioMeta, store);
                 break;
 
             case MessageType.AUDIO_CHUNK:
                 const chunkMsg = message as AudioChunk;
-                const chunkArray = this.audioChunks.get(conn.peer);
-                if (chunkArray && this.audioMeta) {
-                    // Store binary chunk at correct index
-                    chunkArray[chunkMsg.chunkIndex] = chunkMsg.data;
-                    const receivedCount = chunkArray.filter(c => c !== undefined).length;
-                    console.log(`[PeerManager] Chunk ${chunkMsg.chunkIndex + 1}/${chunkMsg.totalChunks} (received: ${receivedCount})`);
-
-                    // If we've received all chunks, process immediately
-                    if (receivedCount === this.audioMeta.totalChunks) {
-                        console.log('[PeerManager] All chunks received, processing...');
-                        this.processReceivedAudio(conn.peer, store);
-                    }
-                } else {
-                    console.warn('[PeerManager] Received chunk but no meta/storage initialized');
+                const transfer = this.incomingTransfers.get(chunkMsg.transferId);
+                if (!transfer) {
+                    console.warn('[PeerManager] Received chunk for unknown transfer');
+                    break;
                 }
-                break;
-
-            case MessageType.AUDIO_COMPLETE:
-                // Check if we already processed the audio
-                if (!this.audioChunks.has(conn.peer)) {
-                    console.log('[PeerManager] Audio already processed');
+                if (chunkMsg.totalChunks !== transfer.meta.totalChunks) {
+                    this.rejectMessage(conn.peer, `AUDIO_CHUNK: totalChunks ${chunkMsg.totalChunks} does not match meta (${transfer.meta.totalChunks})`);
                     break;
                 }
-
-                // Guard: Ensure meta is still available
-                if (!this.audioMeta) {
-                    console.log('[PeerManager] Audio meta already cleared, skipping duplicate process');
+                if (!transfer.addChunk(chunkMsg)) {
+                    console.warn(`[PeerManager] Chunk ${chunkMsg.chunkIndex} failed checksum, will re-request`);
                     break;
                 }
+                if (transfer.id === this.activeTransferId) {
+                    this.decodeReadySegments(transfer, chunkMsg.chunkIndex, store);
+                }
 
-                // Fallback - try to process even if we missed some chunks
-                const completeChunks = this.audioChunks.get(conn.peer)!;
-                const totalReceived = completeChunks.filter(c => c !== undefined).length;
-                console.log(`[PeerManager] AUDIO_COMPLETE received. Chunks: ${totalReceived}/${this.audioMeta?.totalChunks || '?'}`);
+                // If we've received all chunks, process immediately
+                if (transfer.isComplete()) {
+                    console.log('[PeerManager] All chunks received, verifying...');
+                    await this.processReceivedAudio(conn, transfer, store);
+                }
+                break;
 
-                if (totalReceived > 0) {
-                    await this.processReceivedAudio(conn.peer, store);
-                } else {
-                    console.error('[PeerManager] No chunks received!');
-                    store.setPlaybackState('stopped');
+            case MessageType.AUDIO_COMPLETE:
+                this.handleAudioComplete(conn, (message as AudioComplete).transferId, store);
+                break;
+
+            case MessageType.AUDIO_NACK:
+                await this.resendChunks(conn, message as AudioNack);
+                break;
+
+            case MessageType.TRANSFER_RESUME:
+                const resumeMsg = message as TransferResume;
+                this.resumeWaiters.get(`${conn.peer}:${resumeMsg.transferId}`)?.(resumeMsg.ranges);
+                break;
+
+            case MessageType.CHUNK_HAVE:
+                await this.handleChunkHave(conn, message as ChunkHave);
+                break;
+
+            case MessageType.SWARM_ASSIGN:
+                this.handleSwarmAssign(message as SwarmAssign);
+                break;
+
+            case MessageType.CHUNK_REQUEST:
+                await this.serveChunks(conn, message as ChunkRequest);
+                break;
+
+            case MessageType.QUEUE_UPDATE:
+                const queueMsg = message as QueueUpdate;
+                store.setQueue(queueMsg.items);
+                // Catches up a guest that missed an advance, e.g. while reconnecting
+                if (queueMsg.currentId !== null) {
+                    this.handleQueueAdvance(queueMsg.currentId, store);
                 }
                 break;
 
+            case MessageType.QUEUE_ADVANCE:
+                this.handleQueueAdvance((message as QueueAdvance).trackId, store);
+                break;
+
+            case MessageType.PREFETCH_READY:
+                store.setPeerReadyTrack(conn.peer, (message as PrefetchReady).trackId);
+                break;
+
             case MessageType.SCHEDULE_PLAY:
                 const playMsg = message as SchedulePlay;
+                // Any pending transition is called off, like it is in the engine
+                this.scheduledTransition = null;
 
                 // Check if audio is ready before playing
                 if (!audioEngine.getIsReady()) {
@@ -407,26 +1003,56 @@ export class PeerManager {
                     this.pendingPlaybackState = {
                         type: MessageType.PLAYBACK_STATE,
                         isPlaying: true,
-                        seekPosition: playMsg.seekPosition,
-                        startTime: playMsg.startTime,
+                        position: playMsg.seekPosition,
+                        anchorTime: playMsg.startTime,
                     };
                     break;
                 }
 
-                audioEngine.schedulePlay(playMsg.startTime, playMsg.seekPosition, store.clockOffset);
+                audioEngine.schedulePlay(playMsg.startTime, playMsg.seekPosition, this.getHostClockOffset());
                 store.setPlaybackState('playing');
                 break;
 
+            case MessageType.SCHEDULE_TRANSITION:
+                this.handleScheduleTransition(message as ScheduleTransition);
+                break;
+
             case MessageType.SCHEDULE_PAUSE:
-                audioEngine.pause();
-                store.setPlaybackState('paused');
+                this.handleSchedulePause(message as SchedulePause, store);
+                break;
+
+            case MessageType.SCHEDULE_SEEK:
+                this.handleScheduleSeek(message as ScheduleSeek, store);
                 break;
 
             case MessageType.SCHEDULE_STOP:
+                this.scheduledTransition = null;
                 audioEngine.stop();
                 store.setPlaybackState('stopped');
                 break;
 
+            case MessageType.SET_VOLUME:
+                audioEngine.setVolume((message as SetVolume).volume, (message as SetVolume).muted);
+                break;
+
+            case MessageType.SET_CHANNEL:
+                audioEngine.setChannelRole((message as SetChannel).role);
+                store.setChannelRole((message as SetChannel).role);
+                break;
+
+            case MessageType.LATENCY_TRIM:
+                // Guests report their own trim; one from the host is an adjustment to apply
+                if (store.role === 'host') {
+                    store.setPeerLatencyTrim(conn.peer, (message as LatencyTrim).trim);
+                } else {
+                    this.applyLatencyTrim((message as LatencyTrim).trim);
+                }
+                break;
+
+            case MessageType.CALIBRATION_PLAY:
+                audioEngine.playCalibrationChirp((message as CalibrationPlay).startTime, this.getHostClockOffset());
+                break;
+
             case MessageType.REQUEST_MASTER:
                 // Host receives master request
                 console.log('[PeerManager] Master request from:', message.peerId);
@@ -454,7 +1080,7 @@ export class PeerManager {
             case MessageType.PLAYBACK_STATE:
                 // Guest receives current playback state from host
                 const stateMsg = message as PlaybackState;
-                console.log(`[PeerManager] Received playback state: playing=${stateMsg.isPlaying}, pos=${stateMsg.seekPosition}`);
+                console.log(`[PeerManager] Received playback state: playing=${stateMsg.isPlaying}, pos=${stateMsg.position}`);
 
                 // Check if audio is ready
                 if (!audioEngine.getIsReady()) {
@@ -463,119 +1089,1020 @@ export class PeerManager {
                     break;
                 }
 
-                if (stateMsg.isPlaying) {
-                    audioEngine.schedulePlay(stateMsg.startTime, stateMsg.seekPosition, store.clockOffset);
-                    store.setPlaybackState('playing');
-                } else {
-                    store.setPlaybackState('stopped');
-                }
+                this.applyPlaybackState(stateMsg, store);
                 break;
         }
     }
 
     /**
-     * Process received audio chunks and load into audio engine
+     * Start (or resume) receiving a file and tell the host what we already hold (guest side)
      */
-    private async processReceivedAudio(peerId: string, store: ReturnType<typeof useMeshBeatStore.getState>): Promise<void> {
-        if (!this.audioMeta || !this.audioChunks.has(peerId)) {
-            console.error('[PeerManager] Cannot process audio - missing meta or chunks');
+    private async handleAudioMeta(conn: DataConnection, meta: AudioMeta, store: ReturnType<typeof useMeshBeatStore.getState>): Promise<void> {
+        // Anything but the current queue item is the next track arriving early
+        if (meta.trackId !== null && meta.trackId !== store.currentTrackId) {
+            await this.handlePrefetchMeta(conn, meta);
             return;
         }
 
-        const receivedChunks = this.audioChunks.get(peerId)!;
-
-        // Save meta before clearing (in case of errors or finally block)
-        const savedMeta = { ...this.audioMeta };
-
-        try {
-            const buffer = reassembleChunks(receivedChunks);
-            console.log(`[PeerManager] Reassembled ${buffer.byteLength} bytes`);
+        store.setTransferError(null);
 
-            await audioEngine.loadFromArrayBuffer(buffer, savedMeta.name);
-            store.setAudioFile({
-                name: savedMeta.name,
-                size: savedMeta.size,
-                duration: savedMeta.duration,
-                buffer,
-            });
-            store.setPlaybackState('stopped');
-            console.log('[PeerManager] Audio loaded successfully');
+        // Nothing to fetch if this exact file is already loaded
+        if (this.loadedTransferId === meta.sha256) {
+            console.log(`[PeerManager] Already have ${meta.name}, skipping transfer`);
+            this.sendTransferResume(conn, meta.sha256, [[0, meta.totalChunks]]);
+            return;
+        }
 
-            // Process any pending playback state that arrived before audio was ready
-            if (this.pendingPlaybackState) {
-                console.log('[PeerManager] Processing queued playback state...');
-                const pendingState = this.pendingPlaybackState;
-                this.pendingPlaybackState = null;
-
-                if (pendingState.isPlaying) {
-                    // Recalculate timing - use fresh timestamp since we're starting now
-                    audioEngine.schedulePlay(
-                        performance.now() + SCHEDULE_BUFFER,
-                        pendingState.seekPosition,
-                        store.clockOffset
-                    );
-                    store.setPlaybackState('playing');
+        // Played this file before - answer "have it" right away, then load from IndexedDB
+        if (!this.incomingTransfers.has(meta.sha256) && await trackCache.has(meta.sha256)) {
+            console.log(`[PeerManager] Cache hit for ${meta.name}, skipping transfer`);
+            this.sendTransferResume(conn, meta.sha256, [[0, meta.totalChunks]]);
+            store.setPlaybackState('loading');
+
+            const trackId = store.currentTrackId;
+            const cached = await trackCache.get(meta.sha256);
+            if (cached) {
+                // The queue may have moved on while we were reading
+                if (useMeshBeatStore.getState().currentTrackId === trackId) {
+                    await this.loadAudio(cached.buffer, meta, store);
                 }
+                return;
             }
-        } catch (error) {
-            console.error('[PeerManager] Failed to load audio:', error);
-            store.setPlaybackState('stopped');
-        } finally {
-            this.audioChunks.delete(peerId);
-            this.audioMeta = null;
+
+            // Evicted between the lookup and the read - fall through and download after all
+            console.warn('[PeerManager] Cached track disappeared, downloading instead');
         }
-    }
 
-    /**
-     * Stream audio file to a specific peer
-     */
-    async streamAudioToPeer(
+        // Resume a partial download of the same file, if one survived a reconnect
+        let transfer = this.incomingTransfers.get(meta.sha256);
+        if (!transfer) {
+            transfer = new IncomingTransfer(meta);
+            this.incomingTransfers.set(meta.sha256, transfer);
+            this.prunePartialTransfers(meta.sha256);
+        }
+
+        if (this.activeTransferId !== meta.sha256) {
+            this.swarmRequests.clear();
+        }
+        this.activeTransferId = meta.sha256;
+        store.setPlaybackState('loading');
+
+        // Segmented tracks become playable as soon as the first segment is decoded
+        if (meta.segments) {
+            audioEngine.beginTrack(meta.sha256, meta.duration);
+            store.setAudioFile({ name: meta.name, size: meta.size, duration: meta.duration, mimeType: meta.mimeType, buffer: null });
+            this.decodeReadySegments(transfer, undefined, store);
+        }
+
+        const ranges = transfer.getReceivedRanges(MAX_RESUME_RANGES);
+        if (ranges.length > 0) {
+            console.log(`[PeerManager] Resuming ${meta.name}: ${transfer.getReceivedCount()}/${meta.totalChunks} chunks already held`);
+        } else {
+            console.log(`[PeerManager] Receiving audio: ${meta.name} (${meta.totalChunks} chunks expected)`);
+        }
+        this.sendTransferResume(conn, meta.sha256, ranges);
+        this.startHaveReports(conn, transfer);
+    }
+
+    /**
+     * Receive an upcoming track in the background without touching playback (guest side)
+     */
+    private async handlePrefetchMeta(conn: DataConnection, meta: AudioMeta): Promise<void> {
+        if (this.prefetched?.meta.sha256 === meta.sha256 && audioEngine.hasStandby(meta.sha256)) {
+            this.sendTransferResume(conn, meta.sha256, [[0, meta.totalChunks]]);
+            this.sendPrefetchReady(meta);
+            return;
+        }
+
+        if (!this.incomingTransfers.has(meta.sha256) && await trackCache.has(meta.sha256)) {
+            this.sendTransferResume(conn, meta.sha256, [[0, meta.totalChunks]]);
+
+            const cached = await trackCache.get(meta.sha256);
+            if (cached) {
+                await this.prepareNextTrack(meta, cached.buffer);
+                return;
+            }
+            console.warn('[PeerManager] Cached track disappeared, prefetching instead');
+        }
+
+        let transfer = this.incomingTransfers.get(meta.sha256);
+        if (!transfer) {
+            transfer = new IncomingTransfer(meta);
+            this.incomingTransfers.set(meta.sha256, transfer);
+        }
+        this.prefetchTransferId = meta.sha256;
+        this.prunePartialTransfers(meta.sha256);
+
+        console.log(`[PeerManager] Prefetching ${meta.name} (${meta.totalChunks} chunks)`);
+        this.sendTransferResume(conn, meta.sha256, transfer.getReceivedRanges(MAX_RESUME_RANGES));
+    }
+
+    /**
+     * Decode a verified upcoming track into the engine's standby slot and tell the host (guest side)
+     */
+    private async prepareNextTrack(meta: AudioMeta, buffer: ArrayBuffer): Promise<void> {
+        try {
+            await audioEngine.prepareStandby(meta.sha256, buffer, meta.segments);
+        } catch (error) {
+            console.error(`[PeerManager] Failed to decode upcoming ${meta.name}:`, error);
+            return;
+        }
+        this.prefetched = { meta, buffer };
+        this.sendPrefetchReady(meta);
+    }
+
+    private sendPrefetchReady(meta: AudioMeta): void {
+        const hostConn = this.connections.get(this.guestHostId || '');
+        if (!hostConn?.open || meta.trackId === null) return;
+
+        const ready: PrefetchReady = { type: MessageType.PREFETCH_READY, trackId: meta.trackId };
+        hostConn.send(ready);
+    }
+
+    private sendTransferResume(conn: DataConnection, transferId: string, ranges: ChunkRange[]): void {
+        const resume: TransferResume = {
+            type: MessageType.TRANSFER_RESUME,
+            transferId,
+            ranges,
+        };
+        conn.send(resume);
+    }
+
+    /**
+     * Drop the oldest partial downloads so abandoned files don't pile up in memory
+     */
+    private prunePartialTransfers(keepId: string): void {
+        for (const id of this.incomingTransfers.keys()) {
+            if (this.incomingTransfers.size <= MAX_PARTIAL_TRANSFERS) break;
+            if (id !== keepId && id !== this.activeTransferId && id !== this.prefetchTransferId) {
+                this.incomingTransfers.delete(id);
+            }
+        }
+    }
+
+    /**
+     * Report our chunks to the host while downloading, so it can point other guests at us (guest side)
+     */
+    private startHaveReports(conn: DataConnection, transfer: IncomingTransfer): void {
+        this.stopHaveReports();
+        if (!this.hostFeatures.includes('swarm')) return;
+
+        this.haveTimer = setInterval(() => {
+            if (!conn.open || this.incomingTransfers.get(transfer.id) !== transfer || transfer.isComplete()) {
+                this.stopHaveReports();
+                return;
+            }
+            this.reportHave(transfer.id, transfer.getReceivedRanges(MAX_RESUME_RANGES));
+        }, SWARM_HAVE_INTERVAL);
+    }
+
+    private stopHaveReports(): void {
+        if (this.haveTimer) {
+            clearInterval(this.haveTimer);
+            this.haveTimer = null;
+        }
+    }
+
+    private reportHave(transferId: string, ranges: ChunkRange[]): void {
+        const hostConn = this.connections.get(this.guestHostId || '');
+        if (!hostConn?.open || !this.hostFeatures.includes('swarm')) return;
+
+        const have: ChunkHave = {
+            type: MessageType.CHUNK_HAVE,
+            transferId,
+            ranges,
+            failedSources: Array.from(this.failedSources),
+        };
+        hostConn.send(have);
+    }
+
+    /**
+     * Ask the peers the host picked for the chunks we still need (guest side)
+     */
+    private handleSwarmAssign(message: SwarmAssign): void {
+        const transfer = this.incomingTransfers.get(message.transferId);
+        if (!transfer) return;
+
+        const now = Date.now();
+        for (const source of message.sources) {
+            // Skip chunks we hold or already asked someone for recently
+            const indices = source.indices.filter(i =>
+                i < transfer.meta.totalChunks
+                && !transfer.hasChunk(i)
+                && now - (this.swarmRequests.get(i) ?? 0) > SWARM_REQUEST_TIMEOUT
+            );
+            if (indices.length === 0) continue;
+
+            for (const i of indices) {
+                this.swarmRequests.set(i, now);
+            }
+            this.requestChunksFrom(source.peerId, message.transferId, indices);
+        }
+    }
+
+    private async requestChunksFrom(peerId: string, transferId: string, indices: number[]): Promise<void> {
+        const conn = await this.getSwarmConnection(peerId);
+        if (!conn) {
+            console.warn(`[PeerManager] Couldn't reach ${peerId} for chunks`);
+            this.failedSources.add(peerId);
+            for (const i of indices) {
+                this.swarmRequests.delete(i);
+            }
+            return;
+        }
+
+        const request: ChunkRequest = { type: MessageType.CHUNK_REQUEST, transferId, indices };
+        conn.send(request);
+    }
+
+    /**
+     * Send another guest the chunks it asked for, from a partial download or a verified file (guest side)
+     */
+    private async serveChunks(conn: DataConnection, request: ChunkRequest): Promise<void> {
+        const partial = this.incomingTransfers.get(request.transferId);
+        const seed = this.seedTransfer?.meta.sha256 === request.transferId ? this.seedTransfer : null;
+
+        const getChunk = partial
+            ? (i: number) => partial.getChunkMessage(i)
+            : seed
+                ? (i: number) => (i < seed.chunks.length ? createChunkMessage(seed, i) : null)
+                : null;
+        if (!getChunk) return;
+
+        await sendChunksWithBackpressure(conn, getChunk, request.indices, this.senderOptions);
+    }
+
+    /**
+     * Reuse or open a link to another guest for chunk exchange
+     */
+    private getSwarmConnection(peerId: string): Promise<DataConnection | null> {
+        const existing = this.swarmConnections.get(peerId);
+        if (existing?.open) return Promise.resolve(existing);
+
+        const pending = this.swarmConnecting.get(peerId);
+        if (pending) return pending;
+
+        const peer = this.peer;
+        if (!peer || peer.destroyed) return Promise.resolve(null);
+
+        const connecting = new Promise<DataConnection | null>(resolve => {
+            const conn = peer.connect(peerId, {
+                metadata: { role: 'swarm' },
+                serialization: 'binary',
+                reliable: true,
+            });
+
+            const timeoutId = setTimeout(() => {
+                conn.close();
+                resolve(null);
+            }, SWARM_CONNECT_TIMEOUT);
+
+            conn.on('open', () => {
+                clearTimeout(timeoutId);
+                this.addSwarmConnection(conn);
+                resolve(conn);
+            });
+            conn.on('error', () => {
+                clearTimeout(timeoutId);
+                resolve(null);
+            });
+        }).finally(() => {
+            this.swarmConnecting.delete(peerId);
+        });
+
+        this.swarmConnecting.set(peerId, connecting);
+        return connecting;
+    }
+
+    /**
+     * Accept a link from another guest that wants our chunks (guest side)
+     */
+    private handleSwarmConnection(conn: DataConnection): void {
+        if (conn.metadata?.role !== 'swarm') {
+            console.warn('[PeerManager] Ignoring unexpected connection from', conn.peer);
+            conn.close();
+            return;
+        }
+        conn.on('open', () => this.addSwarmConnection(conn));
+    }
+
+    private addSwarmConnection(conn: DataConnection): void {
+        const previous = this.swarmConnections.get(conn.peer);
+        if (previous && previous !== conn) {
+            previous.close();
+        }
+        this.swarmConnections.set(conn.peer, conn);
+        this.setupDataHandler(conn);
+
+        conn.on('close', () => {
+            if (this.swarmConnections.get(conn.peer) === conn) {
+                this.swarmConnections.delete(conn.peer);
+            }
+        });
+    }
+
+    /**
+     * Decode any segments completed by the latest chunk and start playing if we were waiting (guest side)
+     */
+    private decodeReadySegments(transfer: IncomingTransfer, chunkIndex: number | undefined, store: ReturnType<typeof useMeshBeatStore.getState>): void {
+        for (const { segment, data } of transfer.takeReadySegments(chunkIndex)) {
+            audioEngine.addSegment(transfer.id, segment.start, data)
+                .then(() => this.applyPendingPlayback(store))
+                .catch(error => {
+                    console.error(`[PeerManager] Failed to decode segment at ${segment.start}s:`, error);
+                });
+        }
+    }
+
+    /**
+     * Host finished sending - request anything missing or corrupt, or load the file (guest side)
+     */
+    private handleAudioComplete(conn: DataConnection, transferId: string, store: ReturnType<typeof useMeshBeatStore.getState>): void {
+        const transfer = this.incomingTransfers.get(transferId);
+        if (!transfer) {
+            console.log('[PeerManager] Audio already processed');
+            return;
+        }
+
+        // Kept for resuming, but not worth recovering now that the queue has moved on
+        const isPrefetch = transferId === this.prefetchTransferId;
+        if (transferId !== this.activeTransferId && !isPrefetch) {
+            return;
+        }
+
+        if (transfer.isComplete()) {
+            this.processReceivedAudio(conn, transfer, store);
+            return;
+        }
+
+        // Only rounds that made no progress count towards giving up
+        const round = transfer.nextNackRound();
+        const missing = transfer.getMissingIndices();
+        if (round > MAX_NACK_ROUNDS) {
+            console.error(`[PeerManager] Giving up on ${transfer.meta.name}: ${missing.length} chunks still missing`);
+            this.incomingTransfers.delete(transferId);
+            // An upcoming track is simply fetched again when it comes up
+            if (isPrefetch) {
+                this.prefetchTransferId = null;
+                return;
+            }
+            store.setTransferError(`Transfer failed: ${missing.length} chunks could not be recovered`);
+            store.setPlaybackState('stopped');
+            return;
+        }
+
+        console.log(`[PeerManager] ${missing.length} chunks missing or corrupt, requesting resend (round ${round}/${MAX_NACK_ROUNDS})`);
+        const nack: AudioNack = {
+            type: MessageType.AUDIO_NACK,
+            transferId,
+            indices: missing.slice(0, MAX_NACK_INDICES),
+        };
+        conn.send(nack);
+    }
+
+    /**
+     * Start a transfer over after the whole file failed its hash (guest side)
+     * Every chunk passed its CRC, so there's no telling which one is wrong - ask for all of them
+     */
+    private refetchTransfer(conn: DataConnection, transfer: IncomingTransfer): void {
+        const attempt = transfer.restart();
+        this.incomingTransfers.set(transfer.id, transfer);
+        this.activeTransferId = transfer.id;
+
+        console.log(`[PeerManager] Fetching ${transfer.meta.name} again (attempt ${attempt}/${MAX_HASH_RETRIES})`);
+        const nack: AudioNack = {
+            type: MessageType.AUDIO_NACK,
+            transferId: transfer.id,
+            indices: transfer.getMissingIndices().slice(0, MAX_NACK_INDICES),
+        };
+        conn.send(nack);
+    }
+
+    /**
+     * Verify a completed transfer and load it into the audio engine
+     */
+    private async processReceivedAudio(
         conn: DataConnection,
-        buffer: ArrayBuffer,
-        name: string,
-        duration: number
+        transfer: IncomingTransfer,
+        store: ReturnType<typeof useMeshBeatStore.getState>
     ): Promise<void> {
-        const chunks = chunkArrayBuffer(buffer);
-
-        // Send metadata
-        const meta: AudioMeta = {
-            type: MessageType.AUDIO_META,
-            name,
-            size: buffer.byteLength,
-            duration,
-            mimeType: 'audio/mpeg',
-            totalChunks: chunks.length,
-        };
-        conn.send(meta);
-
-        // Send chunks with small delay to prevent overwhelming
-        for (let i = 0; i < chunks.length; i++) {
-            const chunk: AudioChunk = {
-                type: MessageType.AUDIO_CHUNK,
-                chunkIndex: i,
-                totalChunks: chunks.length,
-                data: chunks[i],
+        // Take ownership so a late AUDIO_COMPLETE doesn't process the same file twice
+        this.incomingTransfers.delete(transfer.id);
+        const isActive = this.activeTransferId === transfer.id;
+        if (isActive) {
+            this.activeTransferId = null;
+        }
+        const isPrefetch = this.prefetchTransferId === transfer.id;
+        if (isPrefetch) {
+            this.prefetchTransferId = null;
+        }
+
+        const meta = transfer.meta;
+        let buffer: ArrayBuffer;
+
+        try {
+            buffer = await transfer.assemble();
+            console.log(`[PeerManager] Verified ${buffer.byteLength} bytes`);
+        } catch (error) {
+            if (error instanceof TransferIntegrityError && transfer.getRestartCount() < MAX_HASH_RETRIES) {
+                console.warn('[PeerManager] Discarding corrupt file:', error.message);
+                this.refetchTransfer(conn, transfer);
+                return;
+            }
+            if (error instanceof TransferIntegrityError) {
+                console.error('[PeerManager] Refusing to load audio:', error.message);
+                if (isActive) {
+                    store.setTransferError(error.message);
+                }
+            } else {
+                console.error('[PeerManager] Failed to reassemble audio:', error);
+            }
+            if (isActive) {
+                store.setPlaybackState('stopped');
+            }
+            return;
+        }
+
+        // Arrived ahead of time, or after the queue moved on - keep it without playing it
+        if (!isActive || await this.loadAudio(buffer, meta, store)) {
+            trackCache.put({
+                hash: meta.sha256,
+                name: meta.name,
+                mimeType: meta.mimeType,
+                duration: meta.duration,
+            }, buffer);
+        }
+
+        if (isPrefetch) {
+            await this.prepareNextTrack(meta, buffer);
+        }
+    }
+
+    /**
+     * Load a verified file into the audio engine and apply any queued playback state
+     */
+    private async loadAudio(buffer: ArrayBuffer, meta: AudioMeta, store: ReturnType<typeof useMeshBeatStore.getState>): Promise<boolean> {
+        try {
+            // A track that took over by transition, or was decoded ahead of time, is ready as is
+            const inEngine = audioEngine.getLoadedId() === meta.sha256 || audioEngine.getTransitionId() === meta.sha256;
+            if (!inEngine && !audioEngine.activateStandby(meta.sha256)) {
+                if (meta.segments) {
+                    await this.loadSegments(buffer, meta);
+                } else {
+                    await audioEngine.loadFromArrayBuffer(buffer, meta.name);
+                }
+            }
+            this.loadedTransferId = meta.sha256;
+            this.seedTransfer = transferFromVerified(meta, buffer);
+            this.reportHave(meta.sha256, [[0, meta.totalChunks]]);
+            store.setAudioFile({
+                name: meta.name,
+                size: meta.size,
+                duration: meta.duration,
+                mimeType: meta.mimeType,
+                buffer,
+            });
+            // A segmented track may already be playing
+            if (useMeshBeatStore.getState().playbackState === 'loading') {
+                store.setPlaybackState('stopped');
+            }
+            console.log('[PeerManager] Audio loaded successfully');
+
+            this.applyPendingPlayback(store);
+            return true;
+        } catch (error) {
+            console.error('[PeerManager] Failed to load audio:', error);
+            store.setPlaybackState('stopped');
+            return false;
+        }
+    }
+
+    /**
+     * Decode whichever segments of a verified file the engine doesn't have yet
+     */
+    private async loadSegments(buffer: ArrayBuffer, meta: AudioMeta): Promise<void> {
+        const segments = meta.segments ?? [];
+        const bytes = new Uint8Array(buffer);
+
+        audioEngine.beginTrack(meta.sha256, meta.duration);
+        for (const segment of segments) {
+            if (!audioEngine.hasSegment(meta.sha256, segment.start)) {
+                await audioEngine.addSegment(meta.sha256, segment.start, bytes.subarray(segment.offset, segment.offset + segment.length));
+            }
+        }
+
+        if (!audioEngine.isTrackComplete(meta.sha256, segments.length)) {
+            throw new Error(`Could not decode every segment of ${meta.name}`);
+        }
+    }
+
+    /**
+     * Pause at the host's instant, holding the position it sent (guest side)
+     */
+    private handleSchedulePause(message: SchedulePause, store: ReturnType<typeof useMeshBeatStore.getState>): void {
+        this.scheduledTransition = null;
+        store.setPlaybackState('paused');
+
+        if (!audioEngine.getIsReady()) {
+            // Resume picks up from the paused position once the audio is in
+            this.pendingPlaybackState = {
+                type: MessageType.PLAYBACK_STATE,
+                isPlaying: false,
+                position: message.position,
+                anchorTime: message.pauseTime,
             };
-            conn.send(chunk);
+            return;
+        }
+
+        audioEngine.schedulePause(message.pauseTime, message.position, this.getHostClockOffset());
+    }
+
+    /**
+     * Jump to the host's position at its instant, whether playing or not (guest side)
+     */
+    private handleScheduleSeek(message: ScheduleSeek, store: ReturnType<typeof useMeshBeatStore.getState>): void {
+        this.scheduledTransition = null;
+        this.setSeekState(message.position, store);
+
+        if (!audioEngine.getIsReady()) {
+            // Start or hold from the new position once the audio is in
+            this.pendingPlaybackState = {
+                type: MessageType.PLAYBACK_STATE,
+                isPlaying: this.pendingPlaybackState?.isPlaying ?? false,
+                position: message.position,
+                anchorTime: message.startTime,
+            };
+            return;
+        }
+
+        audioEngine.scheduleSeek(message.startTime, message.position, this.getHostClockOffset());
+    }
+
+    /**
+     * Show the new position right away; a stopped track now holds it, like a paused one
+     */
+    private setSeekState(position: number, store: ReturnType<typeof useMeshBeatStore.getState>): void {
+        store.setCurrentTime(position);
+        if (store.playbackState === 'stopped' && position > 0) {
+            store.setPlaybackState('paused');
+        }
+    }
+
+    /**
+     * Process any pending playback state that arrived before audio was ready
+     */
+    private applyPendingPlayback(store: ReturnType<typeof useMeshBeatStore.getState>): void {
+        if (!this.pendingPlaybackState || !audioEngine.getIsReady()) return;
+
+        console.log('[PeerManager] Processing queued playback state...');
+        const pendingState = this.pendingPlaybackState;
+        this.pendingPlaybackState = null;
+        this.applyPlaybackState(pendingState, store);
+    }
+
+    /**
+     * Pick up playback from the host's anchor (guest side)
+     * The anchor may be well in the past by now, so the engine works out where the track has got to
+     */
+    private applyPlaybackState(state: PlaybackState, store: ReturnType<typeof useMeshBeatStore.getState>): void {
+        if (state.isPlaying) {
+            audioEngine.schedulePlay(state.anchorTime, state.position, this.getHostClockOffset());
+            store.setPlaybackState('playing');
+        } else {
+            audioEngine.seek(state.position);
+            store.setPlaybackState(state.position > 0 ? 'paused' : 'stopped');
+        }
+    }
+
+    /**
+     * Start the prefetched track on the engine's second deck at the host's handover time (guest side)
+     * A guest without it joins the track late once QUEUE_ADVANCE and its audio arrive
+     */
+    private handleScheduleTransition(message: ScheduleTransition): void {
+        this.scheduledTransition = message;
+        const prefetched = this.prefetched;
+        const scheduled = prefetched?.meta.trackId === message.trackId
+            && audioEngine.scheduleTransition(prefetched.meta.sha256, message.startTime, this.getHostClockOffset(), message.crossfade);
+
+        if (!scheduled) {
+            console.warn(`[PeerManager] Not ready for transition to ${message.trackId}, will join late`);
+        }
+    }
 
-            // Small delay every 10 chunks
-            if (i % 10 === 9) {
-                await new Promise(resolve => setTimeout(resolve, 10));
+    /**
+     * Drop the current track when the host switches to another queued one (guest side)
+     * Its AUDIO_META follows, so playback waits in the 'loading' state unless it was prefetched
+     * After a scheduled transition the engine has already moved on by itself
+     */
+    private handleQueueAdvance(trackId: string | null, store: ReturnType<typeof useMeshBeatStore.getState>): void {
+        if (store.currentTrackId === trackId) return;
+        console.log(`[PeerManager] Queue advanced to ${trackId ?? 'nothing'}`);
+
+        const prefetched = this.prefetched;
+        const transition = this.scheduledTransition;
+        const sha256 = prefetched?.meta.trackId === trackId ? prefetched?.meta.sha256 : undefined;
+        const continuing = sha256 !== undefined
+            && (audioEngine.getLoadedId() === sha256 || audioEngine.getTransitionId() === sha256);
+
+        this.scheduledTransition = null;
+        store.setCurrentTrackId(trackId);
+        this.stopHaveReports();
+        this.activeTransferId = null;
+        this.prefetchTransferId = null;
+        this.prefetched = null;
+        this.loadedTransferId = null;
+        this.seedTransfer = null;
+        this.swarmRequests.clear();
+        this.pendingPlaybackState = null;
+
+        if (!continuing) {
+            audioEngine.unload();
+            store.setAudioFile(null);
+            store.setPlaybackState(trackId ? 'loading' : 'stopped');
+
+            // Missed the handover, so start the track as soon as it's loaded
+            if (transition && transition.trackId === trackId) {
+                this.pendingPlaybackState = {
+                    type: MessageType.PLAYBACK_STATE,
+                    isPlaying: true,
+                    position: 0,
+                    anchorTime: transition.startTime,
+                };
             }
         }
 
+        // Switch straight to the standby copy if this is the track we prefetched
+        if (trackId !== null && prefetched?.meta.trackId === trackId) {
+            this.loadAudio(prefetched.buffer, prefetched.meta, store);
+        }
+    }
+
+    /**
+     * Outgoing state for the file being played, taking over the prefetched track if it's the same file (host side)
+     */
+    private getCurrentTrack(buffer: ArrayBuffer, name: string, duration: number, mimeType: string): OutgoingTrack {
+        if (this.currentTrack?.source !== buffer) {
+            if (this.nextTrack?.source === buffer) {
+                this.currentTrack = this.nextTrack;
+                this.nextTrack = null;
+            } else {
+                this.currentTrack = {
+                    trackId: useMeshBeatStore.getState().currentTrackId,
+                    source: buffer,
+                    decoded: audioEngine.getDecodedBuffer(),
+                    name,
+                    duration,
+                    mimeType,
+                    transfers: new Map(),
+                };
+            }
+            this.swarms.clear();
+        }
+        return this.currentTrack;
+    }
+
+    /**
+     * Check whether a track is still current or being prefetched
+     */
+    private isServing(track: OutgoingTrack): boolean {
+        return track === this.currentTrack || track === this.nextTrack;
+    }
+
+    /**
+     * Chunk and hash a track once per format, reusing the result for every peer (host side)
+     */
+    private async getOutgoingTransfer(peerId: string, track: OutgoingTrack): Promise<OutgoingTransfer> {
+        const { transferMode, qualityTier, connectedPeers } = useMeshBeatStore.getState();
+        const codec = qualityTier === 'original'
+            ? 'pcm'
+            : await pickTransferCodec(connectedPeers.get(peerId)?.capabilities?.codecs ?? []);
+
+        const key = `${transferMode}:${qualityTier}:${codec}`;
+        let transfer = track.transfers.get(key);
+        if (!transfer) {
+            transfer = this.buildTransfer(track, transferMode, qualityTier, codec);
+            track.transfers.set(key, transfer);
+        }
+        return transfer;
+    }
+
+    /**
+     * Re-encode a track for the room's transfer mode and quality tier
+     * Falls back to the original upload if encoding isn't possible
+     */
+    private async buildTransfer(
+        track: OutgoingTrack,
+        mode: TransferMode,
+        tier: QualityTier,
+        codec: TransferCodec
+    ): Promise<OutgoingTransfer> {
+        const { source, decoded, name, duration, mimeType, trackId } = track;
+        if (decoded && (mode === 'stream' || tier !== 'original')) {
+            try {
+                const segmentDuration = mode === 'stream' ? SEGMENT_DURATION : Infinity;
+                const encoded = tier === 'original'
+                    ? buildSegmentedPayload(decoded)
+                    : await encodeTrack(decoded, tier, codec, segmentDuration);
+
+                if (encoded.payload.byteLength <= MAX_AUDIO_SIZE) {
+                    console.log(`[PeerManager] Encoded ${name} as ${encoded.codec} (${tier}): ${encoded.payload.byteLength} bytes, ${encoded.segments.length} segments`);
+                    return prepareTransfer(encoded.payload, name, duration, {
+                        mimeType: encoded.mimeType,
+                        codec: encoded.codec,
+                        segments: mode === 'stream' ? encoded.segments : null,
+                    }, trackId);
+                }
+                console.warn(`[PeerManager] Encoded ${name} is too large, sending the original file`);
+            } catch (error) {
+                console.error('[PeerManager] Encoding failed, sending the original file:', error);
+            }
+        }
+        return prepareTransfer(source, name, duration, { mimeType, codec: null, segments: null }, trackId);
+    }
+
+    /**
+     * Find a prepared transfer of the current or next track by its hash
+     */
+    private async findOutgoingTransfer(transferId: string): Promise<{ track: OutgoingTrack; transfer: OutgoingTransfer } | null> {
+        for (const track of [this.currentTrack, this.nextTrack]) {
+            if (!track) continue;
+            const transfers = await Promise.all(track.transfers.values());
+            const transfer = transfers.find(candidate => candidate.meta.sha256 === transferId);
+            if (transfer) {
+                return { track, transfer };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Send a set of chunks under backpressure, reporting throughput to the store
+     * Background sends use a shallow window and don't report
+     */
+    private async sendChunks(
+        conn: DataConnection,
+        track: OutgoingTrack,
+        transfer: OutgoingTransfer,
+        indices: number[],
+        background = false
+    ): Promise<boolean> {
+        // Stop feeding a track once the queue moves past it
+        const getChunk = (i: number) => (this.isServing(track) ? createChunkMessage(transfer, i) : null);
+
+        const sent = await sendChunksWithBackpressure(
+            conn,
+            getChunk,
+            indices,
+            background ? BACKGROUND_SENDER_OPTIONS : this.senderOptions,
+            background ? undefined : (stats) => {
+                useMeshBeatStore.getState().updatePeerTransfer(conn.peer, stats);
+            }
+        );
+
+        if (!sent) {
+            console.warn(`[PeerManager] Connection to ${conn.peer} closed mid-transfer`);
+            return false;
+        }
+        if (!this.isServing(track)) {
+            console.log(`[PeerManager] Stopped sending ${track.name} to ${conn.peer}: track changed`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Tune the send window used for audio transfers
+     */
+    setSenderOptions(options: Partial<SenderOptions>): void {
+        this.senderOptions = { ...this.senderOptions, ...options };
+    }
+
+    /**
+     * Stream audio file to a specific peer
+     */
+    async streamAudioToPeer(
+        conn: DataConnection,
+        buffer: ArrayBuffer,
+        name: string,
+        duration: number,
+        mimeType: string
+    ): Promise<void> {
+        const track = this.getCurrentTrack(buffer, name, duration, mimeType);
+        const transfer = await this.getOutgoingTransfer(conn.peer, track);
+        const transferId = transfer.meta.sha256;
+
+        // Send metadata, then only the chunks the guest doesn't already hold
+        const resumed = this.waitForResume(conn.peer, transferId);
+        conn.send(transfer.meta);
+        const ranges = await resumed;
+
+        // Big rooms fetch from each other; the host only seeds what nobody has yet
+        const swarm = this.getSwarm(transfer);
+        if (this.peerSupports(conn.peer, 'swarm')) {
+            swarm.setHave(conn.peer, ranges);
+        }
+        const useSwarm = this.shouldSwarm(conn.peer) && !swarm.isComplete(conn.peer);
+        useMeshBeatStore.getState().setPeerSwarm(conn.peer, useSwarm);
+        if (useSwarm) {
+            console.log(`[PeerManager] ${conn.peer} fetches ${name} from the swarm`);
+            await this.assignSwarmChunks(conn, track, transfer, swarm);
+            return;
+        }
+
+        // Send the segment at the current position first so a late joiner can start right away
+        const indices = orderChunksFromPosition(
+            indicesOutsideRanges(transfer.chunks.length, ranges),
+            transfer.meta.segments,
+            audioEngine.getCurrentTime()
+        );
+        if (indices.length === 0) {
+            console.log(`[PeerManager] ${conn.peer} already has ${name}, skipping transfer`);
+        } else if (indices.length < transfer.chunks.length) {
+            console.log(`[PeerManager] ${conn.peer} resumes ${name}: sending ${indices.length}/${transfer.chunks.length} chunks`);
+        }
+
+        if (!await this.sendChunks(conn, track, transfer, indices)) {
+            return;
+        }
+
         // Send complete signal
-        conn.send({ type: MessageType.AUDIO_COMPLETE });
+        const complete: AudioComplete = { type: MessageType.AUDIO_COMPLETE, transferId };
+        conn.send(complete);
         console.log('[PeerManager] Audio stream complete');
     }
 
+    /**
+     * Send the next queued track to a guest in the background (host side)
+     */
+    private async prefetchToPeer(conn: DataConnection, track: OutgoingTrack): Promise<void> {
+        const transfer = await this.getOutgoingTransfer(conn.peer, track);
+        if (!this.isServing(track) || !conn.open) return;
+
+        const transferId = transfer.meta.sha256;
+        const resumed = this.waitForResume(conn.peer, transferId);
+        conn.send(transfer.meta);
+        const indices = indicesOutsideRanges(transfer.chunks.length, await resumed);
+
+        // Guests that already hold the file report readiness themselves
+        if (indices.length === 0) return;
+
+        console.log(`[PeerManager] Prefetching ${track.name} to ${conn.peer}: ${indices.length} chunks`);
+        if (await this.sendChunks(conn, track, transfer, indices, true)) {
+            const complete: AudioComplete = { type: MessageType.AUDIO_COMPLETE, transferId };
+            conn.send(complete);
+        }
+    }
+
+    /**
+     * Start sending the next queued track to every guest while the current one plays (host side)
+     * @param decoded - The track's decoded audio, for re-encoding
+     */
+    async prefetchToAll(
+        trackId: string,
+        buffer: ArrayBuffer,
+        name: string,
+        duration: number,
+        mimeType: string,
+        decoded: AudioBuffer
+    ): Promise<void> {
+        if (this.nextTrack?.trackId !== trackId || this.nextTrack.source !== buffer) {
+            this.nextTrack = { trackId, source: buffer, decoded, name, duration, mimeType, transfers: new Map() };
+        }
+        const track = this.nextTrack;
+
+        const peers = useMeshBeatStore.getState().connectedPeers;
+        const promises = Array.from(this.connections.values())
+            .filter(conn => peers.get(conn.peer)?.handshake !== 'pending')
+            .map(conn => this.prefetchToPeer(conn, track));
+        await Promise.all(promises);
+    }
+
+    /**
+     * Wait for a guest to report which chunks it already holds (host side)
+     * Falls back to sending everything if it doesn't answer in time
+     */
+    private waitForResume(peerId: string, transferId: string): Promise<ChunkRange[]> {
+        const key = `${peerId}:${transferId}`;
+
+        return new Promise(resolve => {
+            const timeoutId = setTimeout(() => {
+                this.resumeWaiters.delete(key);
+                resolve([]);
+            }, RESUME_WAIT_TIMEOUT);
+
+            this.resumeWaiters.set(key, (ranges) => {
+                clearTimeout(timeoutId);
+                this.resumeWaiters.delete(key);
+                resolve(ranges);
+            });
+        });
+    }
+
+    /**
+     * Resend chunks a guest reported missing or corrupt (host side)
+     */
+    private async resendChunks(conn: DataConnection, nack: AudioNack): Promise<void> {
+        const found = await this.findOutgoingTransfer(nack.transferId);
+        if (!found) {
+            console.warn('[PeerManager] NACK received for a transfer we no longer serve');
+            return;
+        }
+
+        const { track, transfer } = found;
+        const valid = nack.indices.filter(i => i < transfer.chunks.length);
+        console.log(`[PeerManager] Resending ${valid.length} chunks to ${conn.peer}`);
+
+        if (await this.sendChunks(conn, track, transfer, valid, track !== this.currentTrack)) {
+            const complete: AudioComplete = { type: MessageType.AUDIO_COMPLETE, transferId: nack.transferId };
+            conn.send(complete);
+        }
+    }
+
+    /**
+     * Chunk holdings for a transfer, created on first use (host side)
+     */
+    private getSwarm(transfer: OutgoingTransfer): SwarmCoordinator {
+        const transferId = transfer.meta.sha256;
+        let swarm = this.swarms.get(transferId);
+        if (!swarm) {
+            swarm = new SwarmCoordinator(transferId, transfer.chunks.length);
+            this.swarms.set(transferId, swarm);
+        }
+        return swarm;
+    }
+
+    /**
+     * Use swarm distribution once enough guests can relay chunks to each other
+     */
+    private shouldSwarm(peerId: string): boolean {
+        if (!this.peerSupports(peerId, 'swarm')) return false;
+
+        const relays = Array.from(useMeshBeatStore.getState().connectedPeers.values())
+            .filter(peer => peer.handshake !== 'pending' && peer.features.includes('swarm'));
+        return relays.length >= SWARM_MIN_PEERS;
+    }
+
+    /**
+     * Tell a guest where to fetch its next chunks, and seed the ones nobody has (host side)
+     */
+    private async assignSwarmChunks(
+        conn: DataConnection,
+        track: OutgoingTrack,
+        transfer: OutgoingTransfer,
+        swarm: SwarmCoordinator
+    ): Promise<void> {
+        if (swarm.isComplete(conn.peer)) return;
+
+        const order = orderChunksFromPosition(swarm.getMissing(conn.peer), transfer.meta.segments, audioEngine.getCurrentTime());
+        const plan = swarm.plan(conn.peer, order);
+
+        if (plan.sources.length > 0) {
+            const assign: SwarmAssign = {
+                type: MessageType.SWARM_ASSIGN,
+                transferId: swarm.transferId,
+                sources: plan.sources.slice(0, MAX_SWARM_SOURCES),
+            };
+            conn.send(assign);
+        }
+
+        if (plan.fromHost.length > 0) {
+            await this.sendChunks(conn, track, transfer, plan.fromHost);
+        }
+    }
+
+    /**
+     * Record a guest's progress and hand out its next assignment (host side)
+     */
+    private async handleChunkHave(conn: DataConnection, message: ChunkHave): Promise<void> {
+        const swarm = this.swarms.get(message.transferId);
+        if (!swarm || !this.peerSupports(conn.peer, 'swarm')) return;
+
+        swarm.setHave(conn.peer, message.ranges);
+        swarm.blockSources(conn.peer, message.failedSources);
+
+        const store = useMeshBeatStore.getState();
+        if (!store.connectedPeers.get(conn.peer)?.swarm) return;
+
+        if (swarm.isComplete(conn.peer)) {
+            console.log(`[PeerManager] ${conn.peer} finished fetching from the swarm`);
+            store.setPeerSwarm(conn.peer, false);
+            return;
+        }
+
+        const found = await this.findOutgoingTransfer(message.transferId);
+        if (found?.track === this.currentTrack) {
+            await this.assignSwarmChunks(conn, found.track, found.transfer, swarm);
+        }
+    }
+
     /**
      * Stream audio to all connected peers
      */
-    async streamAudioToAll(buffer: ArrayBuffer, name: string, duration: number): Promise<void> {
-        const promises = Array.from(this.connections.values()).map(conn =>
-            this.streamAudioToPeer(conn, buffer, name, duration)
-        );
+    async streamAudioToAll(buffer: ArrayBuffer, name: string, duration: number, mimeType: string): Promise<void> {
+        const peers = useMeshBeatStore.getState().connectedPeers;
+        const promises = Array.from(this.connections.values())
+            .filter(conn => peers.get(conn.peer)?.handshake !== 'pending')
+            .map(conn => this.streamAudioToPeer(conn, buffer, name, duration, mimeType));
         await Promise.all(promises);
     }
 
@@ -586,26 +2113,111 @@ export class PeerManager {
         const store = useMeshBeatStore.getState();
         const isPlaying = store.playbackState === 'playing';
 
-        // Calculate current seek position
-        // If playing, we need to send where the audio currently is
-        const seekPosition = isPlaying ? audioEngine.getCurrentTime?.() || 0 : 0;
+        // The anchor the room was started on, so the guest lands exactly where everyone else is
+        const anchor = (isPlaying ? audioEngine.getSyncAnchor() : null)
+            ?? { syncedTime: localNow(), position: audioEngine.getResumePosition() };
 
         const message: PlaybackState = {
             type: MessageType.PLAYBACK_STATE,
             isPlaying,
-            seekPosition,
-            startTime: performance.now() + SCHEDULE_BUFFER, // Future time to sync
+            position: anchor.position,
+            anchorTime: anchor.syncedTime,
         };
 
         conn.send(message);
-        console.log(`[PeerManager] Sent playback state: playing=${isPlaying}, pos=${seekPosition}`);
+        console.log(`[PeerManager] Sent playback state: playing=${isPlaying}, pos=${anchor.position.toFixed(2)}s at ${anchor.syncedTime.toFixed(0)}`);
+    }
+
+    /**
+     * Send a message to every connection, skipping guests still in the handshake
+     */
+    private broadcast(message: ProtocolMessage): void {
+        const peers = useMeshBeatStore.getState().connectedPeers;
+        this.connections.forEach((conn, peerId) => {
+            if (peers.get(peerId)?.handshake !== 'pending') {
+                conn.send(message);
+            }
+        });
+    }
+
+    /**
+     * Offset from our clock to the host's, from the sync session with it (guest side)
+     */
+    private getHostClockOffset(): number {
+        const session = this.guestHostId ? syncEngine.getSession(this.guestHostId) : null;
+        return session?.getClockOffset() ?? 0;
+    }
+
+    private getQueueUpdate(): QueueUpdate {
+        const { queue, currentTrackId } = useMeshBeatStore.getState();
+        return { type: MessageType.QUEUE_UPDATE, items: queue, currentId: currentTrackId };
+    }
+
+    /**
+     * Share the queue with every guest (host side)
+     */
+    broadcastQueue(): void {
+        this.broadcast(this.getQueueUpdate());
+    }
+
+    /**
+     * Switch the room to another queued track, dropping the current one everywhere (host side)
+     * The caller loads the new track and streams it with streamAudioToAll
+     * @param transitioned - The engine already moved on by a scheduled transition, so keep playing
+     */
+    broadcastQueueAdvance(trackId: string | null, transitioned: boolean = false): void {
+        const store = useMeshBeatStore.getState();
+        store.setCurrentTrackId(trackId);
+        if (!transitioned) {
+            store.setAudioFile(null);
+            store.setPlaybackState(trackId ? 'loading' : 'stopped');
+        }
+
+        // Transfers of the previous track stop at their next chunk; a prefetch of the new one carries on
+        this.currentTrack = null;
+        if (this.nextTrack?.trackId !== trackId) {
+            this.nextTrack = null;
+        }
+        this.swarms.clear();
+        store.connectedPeers.forEach(peer => {
+            if (peer.swarm) store.setPeerSwarm(peer.id, false);
+        });
+
+        if (!transitioned) {
+            audioEngine.unload();
+        }
+        const message: QueueAdvance = { type: MessageType.QUEUE_ADVANCE, trackId };
+        this.broadcast(message);
+    }
+
+    /**
+     * Schedule the prefetched next track to take over everywhere at the same instant (host side)
+     * Returns the synchronized start time, or null if the host itself can't make the handover
+     * @param delay - Seconds from now until the next track starts
+     * @param crossfade - Seconds the tracks overlap, 0 for gapless
+     */
+    broadcastTransition(trackId: string, delay: number, crossfade: number): number | null {
+        const startTime = localNow() + delay * 1000;
+        if (!audioEngine.scheduleTransition(trackId, startTime, 0, crossfade)) {
+            return null;
+        }
+
+        const message: ScheduleTransition = {
+            type: MessageType.SCHEDULE_TRANSITION,
+            trackId,
+            startTime,
+            crossfade,
+        };
+        this.broadcast(message);
+        return startTime;
     }
 
     /**
      * Broadcast scheduled play command to all peers
+     * @param seekPosition - Position to play from, by default where playback was paused (or is about to be)
      */
-    broadcastPlay(seekPosition: number = 0): void {
-        const startTime = performance.now() + SCHEDULE_BUFFER;
+    broadcastPlay(seekPosition: number = audioEngine.getResumePosition()): void {
+        const startTime = localNow() + SCHEDULE_BUFFER;
 
         const message: SchedulePlay = {
             type: MessageType.SCHEDULE_PLAY,
@@ -614,7 +2226,7 @@ export class PeerManager {
         };
 
         // Send to all peers
-        this.connections.forEach(conn => conn.send(message));
+        this.broadcast(message);
 
         // Play locally too
         audioEngine.schedulePlay(startTime, seekPosition, 0);
@@ -622,23 +2234,136 @@ export class PeerManager {
     }
 
     /**
-     * Broadcast pause command
+     * Broadcast scheduled pause command, with the position every device holds from then
      */
     broadcastPause(): void {
-        this.connections.forEach(conn => conn.send({ type: MessageType.SCHEDULE_PAUSE }));
-        audioEngine.pause();
+        const pauseTime = localNow() + SCHEDULE_BUFFER;
+
+        const message: SchedulePause = {
+            type: MessageType.SCHEDULE_PAUSE,
+            pauseTime,
+            position: audioEngine.getPositionAt(pauseTime),
+        };
+
+        this.broadcast(message);
+
+        audioEngine.schedulePause(pauseTime, message.position, 0);
         useMeshBeatStore.getState().setPlaybackState('paused');
     }
 
+    /**
+     * Broadcast scheduled seek command, moving every device in step whether or not it's playing
+     */
+    broadcastSeek(position: number): void {
+        const startTime = localNow() + SCHEDULE_BUFFER;
+
+        const message: ScheduleSeek = {
+            type: MessageType.SCHEDULE_SEEK,
+            startTime,
+            position,
+        };
+
+        this.broadcast(message);
+
+        audioEngine.scheduleSeek(startTime, position, 0);
+        this.setSeekState(position, useMeshBeatStore.getState());
+    }
+
     /**
      * Broadcast stop command
      */
     broadcastStop(): void {
-        this.connections.forEach(conn => conn.send({ type: MessageType.SCHEDULE_STOP }));
+        this.broadcast({ type: MessageType.SCHEDULE_STOP });
         audioEngine.stop();
         useMeshBeatStore.getState().setPlaybackState('stopped');
     }
 
+    /**
+     * Set the fader every device plays through, including the host (host side)
+     */
+    setMasterVolume(volume: VolumeSetting): void {
+        const store = useMeshBeatStore.getState();
+        store.setMasterVolume(volume);
+        audioEngine.setVolume(volume.volume, volume.muted);
+
+        this.connections.forEach((conn, peerId) => {
+            if (store.connectedPeers.get(peerId)?.handshake !== 'pending') {
+                this.sendVolume(conn);
+            }
+        });
+    }
+
+    /**
+     * Set one guest's own fader (host side)
+     */
+    setPeerVolume(peerId: string, volume: VolumeSetting): void {
+        useMeshBeatStore.getState().setPeerVolume(peerId, volume);
+        const conn = this.connections.get(peerId);
+        if (conn) {
+            this.sendVolume(conn);
+        }
+    }
+
+    /**
+     * Tell a guest its volume, with the master fader folded in
+     */
+    private sendVolume(conn: DataConnection): void {
+        const { masterVolume, connectedPeers } = useMeshBeatStore.getState();
+        const device = connectedPeers.get(conn.peer)?.volume ?? DEFAULT_VOLUME;
+
+        const message: SetVolume = {
+            type: MessageType.SET_VOLUME,
+            volume: masterVolume.volume * device.volume,
+            muted: masterVolume.muted || device.muted,
+        };
+        conn.send(message);
+    }
+
+    /**
+     * Assign a guest its part of the mix, remembered if it reconnects (host side)
+     */
+    setPeerChannel(peerId: string, role: ChannelRole): void {
+        this.channelRoles.set(peerId, role);
+        useMeshBeatStore.getState().setPeerChannel(peerId, role);
+        const conn = this.connections.get(peerId);
+        if (conn) {
+            this.sendChannel(conn);
+        }
+    }
+
+    /**
+     * Adjust a guest's output latency trim; the guest saves it for its current output (host side)
+     */
+    setPeerLatencyTrim(peerId: string, ms: number): void {
+        const trim = clampLatencyTrim(ms);
+        useMeshBeatStore.getState().setPeerLatencyTrim(peerId, trim);
+        const conn = this.connections.get(peerId);
+        if (conn) {
+            const message: LatencyTrim = { type: MessageType.LATENCY_TRIM, trim };
+            conn.send(message);
+        }
+    }
+
+    /**
+     * Have a guest play the calibration chirp at a synchronized time (host side)
+     */
+    sendCalibrationPlay(peerId: string, startTime: number): boolean {
+        const conn = this.connections.get(peerId);
+        if (!conn) return false;
+
+        const message: CalibrationPlay = { type: MessageType.CALIBRATION_PLAY, startTime };
+        conn.send(message);
+        return true;
+    }
+
+    private sendChannel(conn: DataConnection): void {
+        const message: SetChannel = {
+            type: MessageType.SET_CHANNEL,
+            role: this.channelRoles.get(conn.peer) ?? 'stereo',
+        };
+        conn.send(message);
+    }
+
     /**
      * Request master control (guest side)
      */
@@ -682,6 +2407,22 @@ export class PeerManager {
      */
     destroy(): void {
         syncEngine.stopSync();
+        this.guestHostId = null;
+        this.clearReconnect();
+        this.clearSwarmState();
+        this.incomingTransfers.clear();
+        this.loadedTransferId = null;
+        this.handshakeTimers.forEach(timer => {
+            clearTimeout(timer);
+        });
+        this.handshakeTimers.clear();
+        this.pendingHandshake = null;
+        this.channelRoles.clear();
+        this.outputDeviceKey = null;
+        if (this.outputListener) {
+            navigator.mediaDevices?.removeEventListener('devicechange', this.outputListener);
+            this.outputListener = null;
+        }
         this.connections.forEach(conn => conn.close());
         this.connections.clear();
         this.peer?.destroy();
@@ -2,20 +2,46 @@
 // Message types for P2P communication
 
 export enum MessageType {
+    // Handshake
+    HELLO = 'HELLO',
+    WELCOME = 'WELCOME',
+
     // Clock synchronization
     SYNC_REQUEST = 'SYNC_REQUEST',
     SYNC_RESPONSE = 'SYNC_RESPONSE',
+    SYNC_REPORT = 'SYNC_REPORT', // Guest tells the host how well it's in sync
 
     // Audio streaming
     AUDIO_META = 'AUDIO_META',
     AUDIO_CHUNK = 'AUDIO_CHUNK',
     AUDIO_COMPLETE = 'AUDIO_COMPLETE',
+    AUDIO_NACK = 'AUDIO_NACK', // Guest asks for missing or corrupt chunks
+    TRANSFER_RESUME = 'TRANSFER_RESUME', // Guest reports chunks it already holds
+
+    // Swarm distribution
+    CHUNK_HAVE = 'CHUNK_HAVE', // Guest reports its chunks to the host while downloading
+    SWARM_ASSIGN = 'SWARM_ASSIGN', // Host tells a guest which peers to fetch chunks from
+    CHUNK_REQUEST = 'CHUNK_REQUEST', // Guest asks another guest for chunks
+
+    // Playlist
+    QUEUE_UPDATE = 'QUEUE_UPDATE', // Host shares the whole queue
+    QUEUE_ADVANCE = 'QUEUE_ADVANCE', // Host switches the room to another queued track
+    PREFETCH_READY = 'PREFETCH_READY', // Guest has an upcoming track decoded and standing by
 
     // Playback control
     SCHEDULE_PLAY = 'SCHEDULE_PLAY',
     SCHEDULE_PAUSE = 'SCHEDULE_PAUSE',
     SCHEDULE_STOP = 'SCHEDULE_STOP',
     SCHEDULE_SEEK = 'SCHEDULE_SEEK',
+    SCHEDULE_TRANSITION = 'SCHEDULE_TRANSITION', // Host hands over to the next queued track at a shared-clock time
+
+    // Mixer
+    SET_VOLUME = 'SET_VOLUME', // Host sets a guest's output volume
+    SET_CHANNEL = 'SET_CHANNEL', // Host assigns a guest its part of the mix
+    LATENCY_TRIM = 'LATENCY_TRIM', // Host sets, or a guest reports, the guest's output latency trim
+
+    // Calibration
+    CALIBRATION_PLAY = 'CALIBRATION_PLAY', // Host has a guest play the test chirp while it listens
 
     // Master control
     REQUEST_MASTER = 'REQUEST_MASTER',
@@ -28,36 +54,164 @@ export enum MessageType {
     PLAYBACK_STATE = 'PLAYBACK_STATE', // Sync current playback state to new guests
 }
 
+// Optional behaviours a device can advertise during the handshake
+export type FeatureFlag =
+    | 'sync-on-join' // Understands PLAYBACK_STATE after the initial transfer
+    | 'master-control' // Can take over playback control
+    | 'swarm'; // Fetches and serves chunks over guest-to-guest connections
+
+export type HandshakeStatus = 'accepted' | 'degraded' | 'rejected';
+
+// Part of the mix a device plays: the full stereo mix, one side, a mono sum,
+// or the center/rear feeds of a passive surround matrix
+export type ChannelRole = 'stereo' | 'left' | 'right' | 'mono' | 'center' | 'rear';
+
+export const CHANNEL_ROLES: readonly ChannelRole[] = ['stereo', 'left', 'right', 'mono', 'center', 'rear'];
+
+export interface Capabilities {
+    protocolVersion: number;
+    appBuild: string;
+    codecs: string[]; // Mime types this device can decode
+    sampleRate: number; // AudioContext.sampleRate
+    outputLatency: number; // AudioContext.outputLatency (seconds, 0 if unknown)
+    features: FeatureFlag[];
+}
+
+export interface Hello {
+    type: MessageType.HELLO;
+    peerId: string;
+    name: string;
+    capabilities: Capabilities;
+}
+
+export interface Welcome {
+    type: MessageType.WELCOME;
+    status: HandshakeStatus;
+    reason: string | null; // Human-readable explanation when degraded or rejected
+    features: FeatureFlag[]; // Negotiated feature set (supported by both sides)
+    capabilities: Capabilities; // Host capabilities
+}
+
 export interface SyncRequest {
     type: MessageType.SYNC_REQUEST;
-    t1: number; // Client send time (performance.now())
+    seq: number; // Sequence number, echoed in the response
+    t1: number; // Client send time (localNow())
 }
 
 export interface SyncResponse {
     type: MessageType.SYNC_RESPONSE;
+    seq: number; // Sequence number of the request answered
     t1: number; // Original client send time
     t2: number; // Server receive time
     t3: number; // Server send time
 }
 
+export interface SyncReport {
+    type: MessageType.SYNC_REPORT;
+    roundTripTime: number; // Best round trip to the host (ms)
+    clockOffset: number; // Host clock minus guest clock (ms)
+    confidence: number; // Half-width of the offset's 95% confidence interval (ms)
+    playbackError: number | null; // How far playback is from the shared clock (ms, positive when ahead), null when not playing
+    buffered: number; // Seconds of the current track decoded ahead of the play position
+    bufferedToEnd: boolean; // Everything from the play position to the end of the track is decoded
+}
+
 export interface AudioMeta {
     type: MessageType.AUDIO_META;
     name: string;
     size: number;
     duration: number;
-    mimeType: string;
+    mimeType: string; // Container of the payload as sent (may differ from the original upload)
+    codec: string | null; // Codec when the host re-encoded the track, null for the original file
     totalChunks: number;
+    sha256: string; // Hex SHA-256 of the whole file
+    segments: AudioSegment[] | null; // Set when the file is a run of independently decodable segments
+    trackId: string | null; // Queue item the file belongs to - anything but the current one is a prefetch
+}
+
+// One independently decodable piece of a streamed track
+export interface AudioSegment {
+    offset: number; // Byte offset within the file
+    length: number; // Bytes
+    start: number; // Track position (seconds)
+    duration: number; // Seconds
 }
 
+// Half-open range of chunk indices: [start, end)
+export type ChunkRange = [number, number];
+
 export interface AudioChunk {
     type: MessageType.AUDIO_CHUNK;
+    transferId: string; // SHA-256 of the file this chunk belongs to
     chunkIndex: number;
     totalChunks: number;
+    checksum: number; // CRC32 of data
     data: Uint8Array; // Binary audio data - Uint8Array for proper msgpack serialization
 }
 
 export interface AudioComplete {
     type: MessageType.AUDIO_COMPLETE;
+    transferId: string;
+}
+
+export interface AudioNack {
+    type: MessageType.AUDIO_NACK;
+    transferId: string;
+    indices: number[]; // Chunk indices to resend
+}
+
+export interface TransferResume {
+    type: MessageType.TRANSFER_RESUME;
+    transferId: string;
+    ranges: ChunkRange[]; // Chunks already held - the host sends only the rest
+}
+
+export interface ChunkHave {
+    type: MessageType.CHUNK_HAVE;
+    transferId: string;
+    ranges: ChunkRange[];
+    failedSources: string[]; // Peers this guest couldn't connect to
+}
+
+export interface SwarmSource {
+    peerId: string;
+    indices: number[];
+}
+
+export interface SwarmAssign {
+    type: MessageType.SWARM_ASSIGN;
+    transferId: string;
+    sources: SwarmSource[];
+}
+
+export interface ChunkRequest {
+    type: MessageType.CHUNK_REQUEST;
+    transferId: string;
+    indices: number[];
+}
+
+// One track in the shared queue, as guests see it
+export interface QueueItem {
+    id: string; // Assigned by the host, stable while the track stays queued
+    name: string;
+    duration: number; // Seconds, 0 until the host has decoded the track
+    size: number; // Bytes of the original upload
+}
+
+export interface QueueUpdate {
+    type: MessageType.QUEUE_UPDATE;
+    items: QueueItem[]; // In play order
+    currentId: string | null;
+}
+
+export interface QueueAdvance {
+    type: MessageType.QUEUE_ADVANCE;
+    trackId: string | null; // Track whose AUDIO_META follows, null when nothing is queued
+}
+
+export interface PrefetchReady {
+    type: MessageType.PREFETCH_READY;
+    trackId: string;
 }
 
 export interface SchedulePlay {
@@ -69,6 +223,7 @@ export interface SchedulePlay {
 export interface SchedulePause {
     type: MessageType.SCHEDULE_PAUSE;
     pauseTime: number; // Synchronized time to pause
+    position: number; // Track position at pauseTime, where every device holds (seconds)
 }
 
 export interface ScheduleStop {
@@ -77,8 +232,36 @@ export interface ScheduleStop {
 
 export interface ScheduleSeek {
     type: MessageType.SCHEDULE_SEEK;
-    position: number;
-    startTime: number;
+    position: number; // Position to jump to (seconds)
+    startTime: number; // Synchronized time the new position plays from
+}
+
+export interface ScheduleTransition {
+    type: MessageType.SCHEDULE_TRANSITION;
+    trackId: string; // Queued track that takes over (prefetched beforehand)
+    startTime: number; // Synchronized time the next track starts
+    crossfade: number; // Seconds both tracks overlap on an equal-power curve, 0 for gapless
+}
+
+export interface SetVolume {
+    type: MessageType.SET_VOLUME;
+    volume: number; // Fader position 0-1, master and device faders combined
+    muted: boolean;
+}
+
+export interface SetChannel {
+    type: MessageType.SET_CHANNEL;
+    role: ChannelRole;
+}
+
+export interface LatencyTrim {
+    type: MessageType.LATENCY_TRIM;
+    trim: number; // ms the device's output path adds after the engine, played that much earlier
+}
+
+export interface CalibrationPlay {
+    type: MessageType.CALIBRATION_PLAY;
+    startTime: number; // Synchronized time to play the chirp
 }
 
 export interface RequestMaster {
@@ -109,20 +292,36 @@ export interface Heartbeat {
 export interface PlaybackState {
     type: MessageType.PLAYBACK_STATE;
     isPlaying: boolean;
-    seekPosition: number; // Current position in seconds
-    startTime: number; // When playback started (performance.now() on host)
+    position: number; // Track position at anchorTime, or where it's held when not playing (seconds)
+    anchorTime: number; // Synchronized time at which the track is at position
 }
 
 export type ProtocolMessage =
+    | Hello
+    | Welcome
     | SyncRequest
     | SyncResponse
+    | SyncReport
     | AudioMeta
     | AudioChunk
     | AudioComplete
+    | AudioNack
+    | TransferResume
+    | ChunkHave
+    | SwarmAssign
+    | ChunkRequest
+    | QueueUpdate
+    | QueueAdvance
+    | PrefetchReady
     | SchedulePlay
     | SchedulePause
     | ScheduleStop
     | ScheduleSeek
+    | ScheduleTransition
+    | SetVolume
+    | SetChannel
+    | LatencyTrim
+    | CalibrationPlay
     | RequestMaster
     | GrantMaster
     | RevokeMaster
@@ -130,11 +329,405 @@ export type ProtocolMessage =
     | Heartbeat
     | PlaybackState;
 
+// Wire protocol version - bump on any incompatible message change
+export const PROTOCOL_VERSION = 20;
+
+// Oldest protocol version the host still accepts
+export const MIN_PROTOCOL_VERSION = 20;
+
+// App build identifier, injected at build time
+export const APP_BUILD = process.env.NEXT_PUBLIC_APP_BUILD || 'dev';
+
+// Features this build implements
+export const SUPPORTED_FEATURES: readonly FeatureFlag[] = ['sync-on-join', 'master-control', 'swarm'];
+
+// Time a guest has to complete the handshake (ms)
+export const HANDSHAKE_TIMEOUT = 5000;
+
 // Chunk size for audio streaming (16KB) - safer for cross-browser WebRTC
 export const CHUNK_SIZE = 16 * 1024;
 
+// Max chunk indices per AUDIO_NACK message
+export const MAX_NACK_INDICES = 1024;
+
+// NACK rounds a guest attempts before giving up on a transfer
+export const MAX_NACK_ROUNDS = 5;
+
+// Times a guest fetches a whole file again after it fails the SHA-256 check
+export const MAX_HASH_RETRIES = 2;
+
+// Max ranges a guest reports in TRANSFER_RESUME
+export const MAX_RESUME_RANGES = 1024;
+
+// How long the host waits for TRANSFER_RESUME before sending the whole file (ms)
+export const RESUME_WAIT_TIMEOUT = 3000;
+
+// Swarm distribution kicks in once this many guests can share chunks
+export const SWARM_MIN_PEERS = 3;
+
+// How often a downloading guest reports its chunks to the host (ms)
+export const SWARM_HAVE_INTERVAL = 1000;
+
+// Max chunks in one SWARM_ASSIGN (across all sources)
+export const SWARM_ASSIGN_LIMIT = 512;
+
+// Max chunks the host seeds to one guest per assignment round
+export const SWARM_HOST_BATCH = 128;
+
+// Max sources in one SWARM_ASSIGN
+export const MAX_SWARM_SOURCES = 64;
+
+// How long a chunk request (or host seed) may stay unanswered before it's retried (ms)
+export const SWARM_REQUEST_TIMEOUT = 5000;
+
+// Reports without progress before the host sends a guest's chunks itself
+export const SWARM_STALL_ROUNDS = 5;
+
+// Length of each segment when streaming a track for progressive playback (seconds)
+export const SEGMENT_DURATION = 4;
+
+// Upper bound on segments per track (over 4 hours at the default segment length)
+export const MAX_SEGMENTS = 4096;
+
+// Longest queue the host keeps (and guests accept)
+export const MAX_QUEUE_LENGTH = 500;
+
+// Longest crossfade between queued tracks (seconds)
+export const MAX_CROSSFADE = 12;
+
+// How far ahead of the handover the host schedules a transition (ms)
+export const TRANSITION_LEAD = 2000;
+
+// Largest output latency trim either way (ms)
+export const MAX_LATENCY_TRIM = 1000;
+
 // Sync interval (ms) - reduced for more responsive measurements
 export const SYNC_INTERVAL = 1000;
 
+// How often guests report their sync quality to the host (ms)
+export const SYNC_REPORT_INTERVAL = 2000;
+
 // Playback scheduling buffer (ms ahead of current time) - reduced for tighter sync
-export const SCHEDULE_BUFFER = 300;
\ No newline at end of file
+export const SCHEDULE_BUFFER = 300;
+
+// Largest audio file we accept over the wire (512MB)
+export const MAX_AUDIO_SIZE = 512 * 1024 * 1024;
+
+// Upper bound on chunks per transfer, derived from the size limit
+export const MAX_TOTAL_CHUNKS = Math.ceil(MAX_AUDIO_SIZE / CHUNK_SIZE);
+
+// Upper bound on free-form strings (names, reasons, mime types)
+const MAX_STRING_LENGTH = 512;
+
+export type DecodeResult =
+    | { ok: true; message: ProtocolMessage }
+    | { ok: false; reason: string };
+
+type Fields = Record<string, unknown>;
+
+// Each validator returns an error description, or null if the message is well-formed
+type Validator = (msg: Fields) => string | null;
+
+function checkNumber(msg: Fields, key: string, min = -Infinity, max = Infinity): string | null {
+    const value = msg[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return `${key} must be a finite number`;
+    if (value < min || value > max) return `${key} out of range [${min}, ${max}]`;
+    return null;
+}
+
+function checkInteger(msg: Fields, key: string, min: number, max: number): string | null {
+    const error = checkNumber(msg, key, min, max);
+    if (error) return error;
+    return Number.isInteger(msg[key]) ? null : `${key} must be an integer`;
+}
+
+function checkString(msg: Fields, key: string, maxLength = MAX_STRING_LENGTH): string | null {
+    const value = msg[key];
+    if (typeof value !== 'string') return `${key} must be a string`;
+    if (value.length > maxLength) return `${key} longer than ${maxLength} characters`;
+    return null;
+}
+
+function checkNullableString(msg: Fields, key: string): string | null {
+    return msg[key] === null ? null : checkString(msg, key);
+}
+
+function checkNullableNumber(msg: Fields, key: string): string | null {
+    return msg[key] === null ? null : checkNumber(msg, key);
+}
+
+function checkBoolean(msg: Fields, key: string): string | null {
+    return typeof msg[key] === 'boolean' ? null : `${key} must be a boolean`;
+}
+
+function checkStringArray(msg: Fields, key: string, maxItems: number): string | null {
+    const value = msg[key];
+    if (!Array.isArray(value)) return `${key} must be an array`;
+    if (value.length > maxItems) return `${key} has more than ${maxItems} items`;
+    if (!value.every(item => typeof item === 'string' && item.length <= MAX_STRING_LENGTH)) {
+        return `${key} must contain only strings`;
+    }
+    return null;
+}
+
+/**
+ * Check a binary field, normalizing ArrayBuffer payloads to Uint8Array in place
+ */
+function checkBytes(msg: Fields, key: string, maxBytes: number): string | null {
+    const value = msg[key];
+    if (value instanceof ArrayBuffer) {
+        msg[key] = new Uint8Array(value);
+    } else if (!(value instanceof Uint8Array)) {
+        return `${key} must be binary`;
+    }
+    const size = (msg[key] as Uint8Array).byteLength;
+    if (size === 0 || size > maxBytes) return `${key} size ${size} outside (0, ${maxBytes}]`;
+    return null;
+}
+
+function checkSha256(msg: Fields, key: string): string | null {
+    const value = msg[key];
+    return typeof value === 'string' && /^[0-9a-f]{64}$/.test(value) ? null : `${key} must be a hex SHA-256`;
+}
+
+function checkIndexArray(msg: Fields, key: string, maxItems: number, maxIndex: number): string | null {
+    const value = msg[key];
+    if (!Array.isArray(value)) return `${key} must be an array`;
+    if (value.length === 0 || value.length > maxItems) return `${key} must have 1-${maxItems} items`;
+    if (!value.every(item => Number.isInteger(item) && item >= 0 && item <= maxIndex)) {
+        return `${key} must contain indices in [0, ${maxIndex}]`;
+    }
+    return null;
+}
+
+function checkRanges(msg: Fields, key: string, maxItems: number, maxIndex: number): string | null {
+    const value = msg[key];
+    if (!Array.isArray(value)) return `${key} must be an array`;
+    if (value.length > maxItems) return `${key} has more than ${maxItems} items`;
+    const valid = value.every(range =>
+        Array.isArray(range)
+        && range.length === 2
+        && Number.isInteger(range[0])
+        && Number.isInteger(range[1])
+        && range[0] >= 0
+        && range[0] < range[1]
+        && range[1] <= maxIndex
+    );
+    return valid ? null : `${key} must contain [start, end) ranges within [0, ${maxIndex}]`;
+}
+
+function checkSources(msg: Fields, key: string): string | null {
+    const value = msg[key];
+    if (!Array.isArray(value)) return `${key} must be an array`;
+    if (value.length > MAX_SWARM_SOURCES) return `${key} has more than ${MAX_SWARM_SOURCES} items`;
+    for (const item of value) {
+        if (typeof item !== 'object' || item === null) return `${key} must contain objects`;
+        const error = firstError(
+            checkString(item as Fields, 'peerId'),
+            checkIndexArray(item as Fields, 'indices', SWARM_ASSIGN_LIMIT, MAX_TOTAL_CHUNKS - 1),
+        );
+        if (error) return `${key}.${error}`;
+    }
+    return null;
+}
+
+function checkQueueItems(msg: Fields, key: string): string | null {
+    const value = msg[key];
+    if (!Array.isArray(value)) return `${key} must be an array`;
+    if (value.length > MAX_QUEUE_LENGTH) return `${key} has more than ${MAX_QUEUE_LENGTH} items`;
+    for (const item of value) {
+        if (typeof item !== 'object' || item === null) return `${key} must contain objects`;
+        const error = firstError(
+            checkString(item as Fields, 'id'),
+            checkString(item as Fields, 'name'),
+            checkNumber(item as Fields, 'duration', 0),
+            checkInteger(item as Fields, 'size', 0, Number.MAX_SAFE_INTEGER),
+        );
+        if (error) return `${key}.${error}`;
+    }
+    return null;
+}
+
+function checkCapabilities(msg: Fields, key: string): string | null {
+    const value = msg[key];
+    if (typeof value !== 'object' || value === null) return `${key} must be an object`;
+    const caps = value as Fields;
+    const error = firstError(
+        checkInteger(caps, 'protocolVersion', 0, 1_000_000),
+        checkString(caps, 'appBuild'),
+        checkStringArray(caps, 'codecs', 32),
+        checkNumber(caps, 'sampleRate', 0, 1_000_000),
+        checkNumber(caps, 'outputLatency', 0, 10),
+        checkStringArray(caps, 'features', 64),
+    );
+    return error ? `${key}.${error}` : null;
+}
+
+function checkSegments(msg: Fields, key: string): string | null {
+    const value = msg[key];
+    if (value === null) return null;
+    if (!Array.isArray(value)) return `${key} must be an array or null`;
+    if (value.length === 0 || value.length > MAX_SEGMENTS) return `${key} must have 1-${MAX_SEGMENTS} items`;
+
+    const size = msg.size as number;
+    let expectedOffset = 0;
+    for (const item of value) {
+        if (typeof item !== 'object' || item === null) return `${key} must contain objects`;
+        const segment = item as Fields;
+        const error = firstError(
+            checkInteger(segment, 'offset', expectedOffset, expectedOffset),
+            checkInteger(segment, 'length', 1, size - expectedOffset),
+            checkNumber(segment, 'start', 0),
+            checkNumber(segment, 'duration', 0),
+        );
+        if (error) return `${key}.${error}`;
+        expectedOffset += segment.length as number;
+    }
+    // Segments must tile the file exactly
+    return expectedOffset === size ? null : `${key} do not cover the whole file`;
+}
+
+function firstError(...errors: (string | null)[]): string | null {
+    return errors.find(error => error !== null) ?? null;
+}
+
+const VALIDATORS: Record<MessageType, Validator> = {
+    [MessageType.HELLO]: (msg) => firstError(
+        checkString(msg, 'peerId'),
+        checkString(msg, 'name'),
+        checkCapabilities(msg, 'capabilities'),
+    ),
+    [MessageType.WELCOME]: (msg) => firstError(
+        ['accepted', 'degraded', 'rejected'].includes(msg.status as string) ? null : 'status is not a handshake status',
+        checkNullableString(msg, 'reason'),
+        checkStringArray(msg, 'features', 64),
+        checkCapabilities(msg, 'capabilities'),
+    ),
+    [MessageType.SYNC_REQUEST]: (msg) => firstError(
+        checkInteger(msg, 'seq', 1, Number.MAX_SAFE_INTEGER),
+        checkNumber(msg, 't1', 0),
+    ),
+    [MessageType.SYNC_RESPONSE]: (msg) => firstError(
+        checkInteger(msg, 'seq', 1, Number.MAX_SAFE_INTEGER),
+        checkNumber(msg, 't1', 0),
+        checkNumber(msg, 't2', 0),
+        checkNumber(msg, 't3', 0),
+    ),
+    [MessageType.SYNC_REPORT]: (msg) => firstError(
+        checkNumber(msg, 'roundTripTime', 0),
+        checkNumber(msg, 'clockOffset'),
+        checkNumber(msg, 'confidence', 0),
+        checkNullableNumber(msg, 'playbackError'),
+        checkNumber(msg, 'buffered', 0),
+        checkBoolean(msg, 'bufferedToEnd'),
+    ),
+    [MessageType.AUDIO_META]: (msg) => firstError(
+        checkString(msg, 'name'),
+        checkInteger(msg, 'size', 1, MAX_AUDIO_SIZE),
+        checkNumber(msg, 'duration', 0),
+        checkString(msg, 'mimeType'),
+        checkNullableString(msg, 'codec'),
+        checkInteger(msg, 'totalChunks', 1, MAX_TOTAL_CHUNKS),
+        checkSha256(msg, 'sha256'),
+        checkSegments(msg, 'segments'),
+        checkNullableString(msg, 'trackId'),
+    ),
+    [MessageType.AUDIO_CHUNK]: (msg) => firstError(
+        checkSha256(msg, 'transferId'),
+        checkInteger(msg, 'totalChunks', 1, MAX_TOTAL_CHUNKS),
+        checkInteger(msg, 'chunkIndex', 0, (msg.totalChunks as number) - 1),
+        checkInteger(msg, 'checksum', 0, 0xffffffff),
+        checkBytes(msg, 'data', CHUNK_SIZE),
+    ),
+    [MessageType.AUDIO_COMPLETE]: (msg) => checkSha256(msg, 'transferId'),
+    [MessageType.AUDIO_NACK]: (msg) => firstError(
+        checkSha256(msg, 'transferId'),
+        checkIndexArray(msg, 'indices', MAX_NACK_INDICES, MAX_TOTAL_CHUNKS - 1),
+    ),
+    [MessageType.TRANSFER_RESUME]: (msg) => firstError(
+        checkSha256(msg, 'transferId'),
+        checkRanges(msg, 'ranges', MAX_RESUME_RANGES, MAX_TOTAL_CHUNKS),
+    ),
+    [MessageType.CHUNK_HAVE]: (msg) => firstError(
+        checkSha256(msg, 'transferId'),
+        checkRanges(msg, 'ranges', MAX_RESUME_RANGES, MAX_TOTAL_CHUNKS),
+        checkStringArray(msg, 'failedSources', MAX_SWARM_SOURCES),
+    ),
+    [MessageType.SWARM_ASSIGN]: (msg) => firstError(
+        checkSha256(msg, 'transferId'),
+        checkSources(msg, 'sources'),
+    ),
+    [MessageType.CHUNK_REQUEST]: (msg) => firstError(
+        checkSha256(msg, 'transferId'),
+        checkIndexArray(msg, 'indices', MAX_NACK_INDICES, MAX_TOTAL_CHUNKS - 1),
+    ),
+    [MessageType.QUEUE_UPDATE]: (msg) => firstError(
+        checkQueueItems(msg, 'items'),
+        checkNullableString(msg, 'currentId'),
+    ),
+    [MessageType.QUEUE_ADVANCE]: (msg) => checkNullableString(msg, 'trackId'),
+    [MessageType.PREFETCH_READY]: (msg) => checkString(msg, 'trackId'),
+    [MessageType.SCHEDULE_PLAY]: (msg) => firstError(
+        checkNumber(msg, 'startTime'),
+        checkNumber(msg, 'seekPosition', 0),
+    ),
+    [MessageType.SCHEDULE_PAUSE]: (msg) => firstError(
+        checkNumber(msg, 'pauseTime'),
+        checkNumber(msg, 'position', 0),
+    ),
+    [MessageType.SCHEDULE_STOP]: () => null,
+    [MessageType.SCHEDULE_SEEK]: (msg) => firstError(
+        checkNumber(msg, 'position', 0),
+        checkNumber(msg, 'startTime'),
+    ),
+    [MessageType.SCHEDULE_TRANSITION]: (msg) => firstError(
+        checkString(msg, 'trackId'),
+        checkNumber(msg, 'startTime'),
+        checkNumber(msg, 'crossfade', 0, MAX_CROSSFADE),
+    ),
+    [MessageType.SET_VOLUME]: (msg) => firstError(
+        checkNumber(msg, 'volume', 0, 1),
+        checkBoolean(msg, 'muted'),
+    ),
+    [MessageType.SET_CHANNEL]: (msg) => (
+        CHANNEL_ROLES.includes(msg.role as ChannelRole) ? null : 'role is not a channel role'
+    ),
+    [MessageType.LATENCY_TRIM]: (msg) => checkNumber(msg, 'trim', -MAX_LATENCY_TRIM, MAX_LATENCY_TRIM),
+    [MessageType.CALIBRATION_PLAY]: (msg) => checkNumber(msg, 'startTime'),
+    [MessageType.REQUEST_MASTER]: (msg) => checkString(msg, 'peerId'),
+    [MessageType.GRANT_MASTER]: (msg) => checkString(msg, 'peerId'),
+    [MessageType.REVOKE_MASTER]: () => null,
+    [MessageType.PEER_INFO]: (msg) => firstError(
+        checkString(msg, 'peerId'),
+        checkString(msg, 'name'),
+    ),
+    [MessageType.HEARTBEAT]: (msg) => checkNumber(msg, 'timestamp', 0),
+    [MessageType.PLAYBACK_STATE]: (msg) => firstError(
+        checkBoolean(msg, 'isPlaying'),
+        checkNumber(msg, 'position', 0),
+        checkNumber(msg, 'anchorTime'),
+    ),
+};
+
+/**
+ * Validate an incoming payload and narrow it to a ProtocolMessage
+ * Unknown types and malformed fields are rejected with a reason
+ */
+export function decodeMessage(data: unknown): DecodeResult {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return { ok: false, reason: 'payload is not an object' };
+    }
+
+    const msg = data as Fields;
+    const type = msg.type;
+    if (typeof type !== 'string' || !Object.hasOwn(VALIDATORS, type)) {
+        return { ok: false, reason: `unknown message type: ${String(type).slice(0, 64)}` };
+    }
+
+    const error = VALIDATORS[type as MessageType](msg);
+    if (error) {
+        return { ok: false, reason: `${type}: ${error}` };
+    }
+
+    return { ok: true, message: msg as unknown as ProtocolMessage };
+}
@@ -0,0 +1,322 @@
+/**
+ * Queue Manager
+ * Host-side playlist: holds the queued files, loads the current one,
+ * prefetches the next and hands over to it (gapless or crossfaded) as the current one ends
+ */
+
+import { audioEngine } from './audio-engine';
+import { peerManager } from './peer-manager';
+import { MAX_QUEUE_LENGTH, type QueueItem, SCHEDULE_BUFFER, TRANSITION_LEAD } from './protocol';
+import { useMeshBeatStore } from './store';
+import { localNow } from './sync-engine';
+
+// How often the host checks whether it's time to schedule a transition (ms)
+const TRANSITION_CHECK_INTERVAL = 500;
+
+export class QueueManager {
+    private files: Map<string, File> = new Map(); // Queue item id -> original upload
+    private nextId = 1;
+    private loading: Promise<void> = Promise.resolve(); // Decodes run one at a time
+    private prefetched: { id: string; buffer: ArrayBuffer; duration: number } | null = null; // Next track, standing by in the engine
+    private streaming = false; // Current track is still going out to guests
+    private transition: { id: string; timer: ReturnType<typeof setTimeout> } | null = null; // Handover announced to guests
+    private transitionCheck: ReturnType<typeof setInterval> | null = null;
+    private unsubscribe: (() => void) | null = null;
+
+    /**
+     * Append a file to the queue, loading it if nothing is current yet
+     */
+    async add(file: File): Promise<void> {
+        const store = useMeshBeatStore.getState();
+        if (store.queue.length >= MAX_QUEUE_LENGTH) {
+            console.warn(`[QueueManager] Queue is full, dropping ${file.name}`);
+            return;
+        }
+
+        const item: QueueItem = { id: `track-${this.nextId++}`, name: file.name, duration: 0, size: file.size };
+        this.files.set(item.id, file);
+        this.listen();
+        store.setQueue([...store.queue, item]);
+        peerManager.broadcastQueue();
+
+        if (store.currentTrackId === null) {
+            await this.load(item.id, false);
+        } else {
+            await this.prefetchNext();
+        }
+    }
+
+    /**
+     * Take a track out of the queue, moving on if it was the one playing
+     */
+    async remove(id: string): Promise<void> {
+        const store = useMeshBeatStore.getState();
+        const index = store.queue.findIndex(item => item.id === id);
+        if (index === -1) return;
+
+        const queue = store.queue.filter(item => item.id !== id);
+        this.files.delete(id);
+        store.setQueue(queue);
+        peerManager.broadcastQueue();
+
+        if (store.currentTrackId === id) {
+            const next = queue[index] ?? null;
+            if (next) {
+                await this.load(next.id, store.playbackState === 'playing');
+            } else {
+                peerManager.broadcastQueueAdvance(null);
+            }
+        } else {
+            await this.prefetchNext();
+        }
+    }
+
+    /**
+     * Move a track to another position in the queue
+     */
+    async move(id: string, toIndex: number): Promise<void> {
+        const store = useMeshBeatStore.getState();
+        const index = store.queue.findIndex(item => item.id === id);
+        const target = Math.max(0, Math.min(store.queue.length - 1, toIndex));
+        if (index === -1 || index === target) return;
+
+        const queue = [...store.queue];
+        const [item] = queue.splice(index, 1);
+        queue.splice(target, 0, item);
+        store.setQueue(queue);
+        peerManager.broadcastQueue();
+        await this.prefetchNext();
+    }
+
+    /**
+     * Jump straight to a queued track and start it everywhere
+     */
+    async playNow(id: string): Promise<void> {
+        await this.load(id, true);
+    }
+
+    /**
+     * Play the track after the current one, or stop at the end of the queue
+     */
+    async advance(): Promise<void> {
+        const { queue, currentTrackId } = useMeshBeatStore.getState();
+        const index = queue.findIndex(item => item.id === currentTrackId);
+        const next = queue[index + 1];
+
+        if (next) {
+            await this.playNow(next.id);
+        } else {
+            console.log('[QueueManager] Reached the end of the queue');
+            peerManager.broadcastStop();
+        }
+    }
+
+    /**
+     * Switch the room to a queued track: guests drop the old one right away,
+     * the host decodes the new one and then streams it
+     */
+    private async load(id: string, autoplay: boolean): Promise<void> {
+        const file = this.files.get(id);
+        if (!file) return;
+
+        this.clearTransition();
+        peerManager.broadcastQueueAdvance(id);
+        // Guests stop receiving any other prefetched track
+        if (this.prefetched?.id !== id) {
+            this.prefetched = null;
+        }
+
+        // Skipped again before an earlier decode finished
+        const decoding = this.loading.then(() => (
+            useMeshBeatStore.getState().currentTrackId === id ? this.decode(id, file) : null
+        ));
+        this.loading = decoding.then(() => {}, () => {});
+
+        let loaded: Awaited<typeof decoding>;
+        try {
+            loaded = await decoding;
+        } catch (error) {
+            console.error(`[QueueManager] Failed to load ${file.name}:`, error);
+            if (useMeshBeatStore.getState().currentTrackId !== id) return;
+            useMeshBeatStore.getState().setPlaybackState('stopped');
+            // Don't let one bad file stop the party
+            if (autoplay) {
+                await this.advance();
+            }
+            return;
+        }
+
+        const store = useMeshBeatStore.getState();
+        if (!loaded || store.currentTrackId !== id) return;
+
+        if (autoplay) {
+            peerManager.broadcastPlay(0);
+        } else {
+            store.setPlaybackState('stopped');
+        }
+        await this.publish(id, file, loaded.buffer, loaded.duration);
+    }
+
+    /**
+     * Show a track as the current one, send it to guests that don't have it yet
+     * and then prefetch the one after it
+     */
+    private async publish(id: string, file: File, buffer: ArrayBuffer, duration: number): Promise<void> {
+        const store = useMeshBeatStore.getState();
+        const mimeType = file.type || 'application/octet-stream';
+        store.setAudioFile({ name: file.name, size: file.size, duration, mimeType, buffer });
+        store.setQueue(store.queue.map(item => (item.id === id ? { ...item, duration } : item)));
+        peerManager.broadcastQueue();
+
+        this.streaming = true;
+        try {
+            await peerManager.streamAudioToAll(buffer, file.name, duration, mimeType);
+        } finally {
+            this.streaming = false;
+        }
+        await this.prefetchNext();
+    }
+
+    /**
+     * Load a track into the engine, reusing the standby copy if it was prefetched
+     */
+    private async decode(id: string, file: File): Promise<{ buffer: ArrayBuffer; duration: number }> {
+        const prefetched = this.prefetched;
+        if (prefetched?.id === id && audioEngine.activateStandby(id)) {
+            this.prefetched = null;
+            return { buffer: prefetched.buffer, duration: prefetched.duration };
+        }
+        return audioEngine.loadFromFile(file);
+    }
+
+    /**
+     * Decode the track after the current one and send it to guests in the background
+     * Waits until the current track has gone out, so it never competes with it
+     */
+    private async prefetchNext(): Promise<void> {
+        const { queue, currentTrackId, audioFile } = useMeshBeatStore.getState();
+        // A new standby would call off a transition guests are already counting on
+        if (this.streaming || this.transition || !audioFile) return;
+
+        const index = queue.findIndex(item => item.id === currentTrackId);
+        const next = index === -1 ? undefined : queue[index + 1];
+        const file = next && this.files.get(next.id);
+        if (!next || !file || this.prefetched?.id === next.id) return;
+
+        const isStillNext = () => {
+            const state = useMeshBeatStore.getState();
+            return state.queue[state.queue.findIndex(item => item.id === state.currentTrackId) + 1]?.id === next.id;
+        };
+
+        const decoding = this.loading.then(async () => {
+            if (!isStillNext()) return null;
+            const buffer = await file.arrayBuffer();
+            const decoded = await audioEngine.prepareStandby(next.id, buffer, null);
+            return { buffer, decoded };
+        });
+        this.loading = decoding.then(() => {}, () => {});
+
+        let prepared: Awaited<typeof decoding>;
+        try {
+            prepared = await decoding;
+        } catch (error) {
+            console.warn(`[QueueManager] Couldn't prefetch ${file.name}:`, error);
+            return;
+        }
+        if (!prepared || !isStillNext()) return;
+
+        const { buffer, decoded } = prepared;
+        this.prefetched = { id: next.id, buffer, duration: decoded.duration };
+        const store = useMeshBeatStore.getState();
+        store.setQueue(store.queue.map(item => (item.id === next.id ? { ...item, duration: decoded.duration } : item)));
+        peerManager.broadcastQueue();
+
+        console.log(`[QueueManager] Prefetching ${file.name}`);
+        await peerManager.prefetchToAll(next.id, buffer, file.name, decoded.duration, file.type || 'application/octet-stream', decoded);
+    }
+
+    /**
+     * Schedule the handover to the prefetched track shortly before the current one ends,
+     * so guests get the start time and fade ahead of it
+     */
+    private checkTransition(): void {
+        const store = useMeshBeatStore.getState();
+        const next = this.prefetched;
+        if (this.transition || !next || store.playbackState !== 'playing') return;
+
+        const index = store.queue.findIndex(item => item.id === store.currentTrackId);
+        if (index === -1 || store.queue[index + 1]?.id !== next.id) return;
+
+        const remaining = audioEngine.getTimeRemaining();
+        if (remaining === null) return;
+
+        // Never overlap more than half of either track
+        const crossfade = Math.min(store.crossfade, audioEngine.getDuration() / 2, next.duration / 2);
+        const delay = remaining - crossfade;
+        // Too close to call for guests: the track plays out and the queue advances as usual
+        if (delay > TRANSITION_LEAD / 1000 || delay < SCHEDULE_BUFFER / 1000) return;
+
+        const startTime = peerManager.broadcastTransition(next.id, delay, crossfade);
+        if (startTime === null) return;
+
+        const id = next.id;
+        this.transition = {
+            id,
+            timer: setTimeout(() => {
+                this.completeTransition(id);
+            }, Math.max(0, startTime - localNow())),
+        };
+    }
+
+    /**
+     * Move the queue on once the next track has taken over
+     * Nothing to do if a pause, seek or skip called the transition off in the meantime
+     */
+    private async completeTransition(id: string): Promise<void> {
+        this.transition = null;
+        const prefetched = this.prefetched;
+        const file = this.files.get(id);
+        const inEngine = audioEngine.getLoadedId() === id || audioEngine.getTransitionId() === id;
+        if (!inEngine || prefetched?.id !== id || !file) return;
+
+        this.prefetched = null;
+        peerManager.broadcastQueueAdvance(id, true);
+        await this.publish(id, file, prefetched.buffer, prefetched.duration);
+    }
+
+    private clearTransition(): void {
+        if (this.transition) {
+            clearTimeout(this.transition.timer);
+            this.transition = null;
+        }
+    }
+
+    /**
+     * Advance automatically whenever the current track plays to its end,
+     * and watch for the moment to schedule a transition
+     */
+    private listen(): void {
+        if (this.unsubscribe) return;
+        this.unsubscribe = audioEngine.onEnded(() => {
+            this.advance();
+        });
+        this.transitionCheck = setInterval(() => this.checkTransition(), TRANSITION_CHECK_INTERVAL);
+    }
+
+    /**
+     * Forget every queued file (the store itself is reset by the peer manager)
+     */
+    clear(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        if (this.transitionCheck) {
+            clearInterval(this.transitionCheck);
+            this.transitionCheck = null;
+        }
+        this.clearTransition();
+        this.files.clear();
+        this.prefetched = null;
+    }
+}
+
+export const queueManager = new QueueManager();
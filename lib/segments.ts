@@ -0,0 +1,140 @@
+/**
+ * Audio Segments
+ * Splits a decoded track into independently decodable pieces for progressive playback
+ */
+
+import { type AudioSegment, CHUNK_SIZE, SEGMENT_DURATION } from './protocol';
+
+export const WAV_MIME = 'audio/wav';
+
+// Codec name recorded in AudioMeta for 16-bit PCM
+export const PCM_CODEC = 'pcm_s16le';
+
+export interface SegmentedPayload {
+    payload: ArrayBuffer;
+    segments: AudioSegment[];
+    mimeType: string;
+    codec: string;
+}
+
+// One encoded piece before it's laid into a payload
+export interface EncodedSegment {
+    bytes: Uint8Array;
+    start: number; // Track position (seconds)
+    duration: number; // Seconds
+}
+
+/**
+ * Encode PCM channels as a 16-bit WAV file
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): Uint8Array {
+    const channelCount = channels.length;
+    const frameCount = channels[0]?.length ?? 0;
+    const dataSize = frameCount * channelCount * 2;
+    const bytes = new Uint8Array(44 + dataSize);
+    const view = new DataView(bytes.buffer);
+
+    const writeTag = (offset: number, tag: string) => {
+        for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+    };
+
+    writeTag(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeTag(8, 'WAVE');
+    writeTag(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, channelCount, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * channelCount * 2, true);
+    view.setUint16(32, channelCount * 2, true);
+    view.setUint16(34, 16, true);
+    writeTag(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    // Interleave and clamp to 16-bit
+    let offset = 44;
+    for (let frame = 0; frame < frameCount; frame++) {
+        for (let ch = 0; ch < channelCount; ch++) {
+            const sample = Math.max(-1, Math.min(1, channels[ch][frame]));
+            view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+            offset += 2;
+        }
+    }
+
+    return bytes;
+}
+
+/**
+ * Frame ranges [start, end) that cut a track of `length` frames into segments
+ */
+export function segmentFrameRanges(length: number, sampleRate: number, segmentDuration: number): [number, number][] {
+    const framesPerSegment = Number.isFinite(segmentDuration) ? Math.round(segmentDuration * sampleRate) : length;
+    const ranges: [number, number][] = [];
+    for (let start = 0; start < length; start += framesPerSegment) {
+        ranges.push([start, Math.min(length, start + framesPerSegment)]);
+    }
+    return ranges;
+}
+
+/**
+ * Lay encoded segments end to end in one payload and build the segment table
+ */
+export function assembleSegments(parts: EncodedSegment[]): { payload: ArrayBuffer; segments: AudioSegment[] } {
+    const size = parts.reduce((sum, part) => sum + part.bytes.byteLength, 0);
+    const payload = new Uint8Array(size);
+    const segments: AudioSegment[] = [];
+    let offset = 0;
+
+    for (const part of parts) {
+        payload.set(part.bytes, offset);
+        segments.push({ offset, length: part.bytes.byteLength, start: part.start, duration: part.duration });
+        offset += part.bytes.byteLength;
+    }
+
+    return { payload: payload.buffer, segments };
+}
+
+/**
+ * Cut a decoded track into fixed-length WAV segments at its own sample rate
+ */
+export function buildSegmentedPayload(audioBuffer: AudioBuffer, segmentDuration = SEGMENT_DURATION): SegmentedPayload {
+    const { sampleRate, numberOfChannels, length } = audioBuffer;
+    const channels = Array.from({ length: numberOfChannels }, (_, ch) => audioBuffer.getChannelData(ch));
+
+    const parts = segmentFrameRanges(length, sampleRate, segmentDuration).map(([start, end]) => ({
+        bytes: encodeWav(channels.map(data => data.subarray(start, end)), sampleRate),
+        start: start / sampleRate,
+        duration: (end - start) / sampleRate,
+    }));
+
+    return { ...assembleSegments(parts), mimeType: WAV_MIME, codec: PCM_CODEC };
+}
+
+/**
+ * Chunk indices [first, last] that hold a segment's bytes
+ */
+export function getSegmentChunkRange(segment: AudioSegment): [number, number] {
+    return [
+        Math.floor(segment.offset / CHUNK_SIZE),
+        Math.floor((segment.offset + segment.length - 1) / CHUNK_SIZE),
+    ];
+}
+
+/**
+ * Reorder chunk indices so the segment playing at `position` arrives first,
+ * letting a late joiner start from the current point instead of the beginning
+ */
+export function orderChunksFromPosition(indices: number[], segments: AudioSegment[] | null, position: number): number[] {
+    if (!segments || segments.length === 0 || position <= 0) {
+        return indices;
+    }
+
+    const current = segments.find(seg => position < seg.start + seg.duration) ?? segments[segments.length - 1];
+    const [firstChunk] = getSegmentChunkRange(current);
+
+    return [
+        ...indices.filter(i => i >= firstChunk),
+        ...indices.filter(i => i < firstChunk),
+    ];
+}
@@ -1,10 +1,14 @@
 import { create } from 'zustand';
 import type Peer from 'peerjs';
 import type { DataConnection } from 'peerjs';
+import type { Capabilities, ChannelRole, FeatureFlag, HandshakeStatus, QueueItem, SyncReport } from './protocol';
+import type { TransferStats } from './transfer';
+import type { QualityTier } from './transcoder';
 
 export type RoomRole = 'host' | 'guest';
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
 export type PlaybackState = 'stopped' | 'playing' | 'paused' | 'loading';
+export type TransferMode = 'file' | 'stream'; // Original file, or segments guests can play while downloading
 
 export interface ConnectedPeer {
     id: string;
@@ -14,12 +18,46 @@ export interface ConnectedPeer {
     lastPing: number;
     status: ConnectionStatus;
     isMaster: boolean;
+    handshake: HandshakeStatus | 'pending';
+    handshakeReason: string | null;
+    capabilities: Capabilities | null;
+    features: FeatureFlag[];
+    rejectedMessages: number; // Payloads that failed protocol validation
+    lastRejection: string | null;
+    transfer: TransferStats | null; // Host: latest audio send to this peer
+    swarm: boolean; // Host: peer fetches the current track from other guests
+    readyTrackId: string | null; // Host: upcoming queue item the peer has decoded and standing by
+    volume: VolumeSetting; // Host: the peer's own fader
+    channel: ChannelRole; // Host: part of the mix the peer plays
+    latencyTrim: number; // Host: the peer's output latency trim (ms)
+    syncHistory: SyncHealth[]; // Host: the peer's recent sync reports, oldest first
+}
+
+// One sync report from a guest, as the host received it
+export type SyncHealth = Omit<SyncReport, 'type'> & { receivedAt: number };
+
+// Sync reports kept per peer, about a minute's worth
+const SYNC_HISTORY_LENGTH = 30;
+
+export interface VolumeSetting {
+    volume: number; // Fader position 0-1
+    muted: boolean;
+}
+
+export const DEFAULT_VOLUME: VolumeSetting = { volume: 1, muted: false };
+
+export interface PeerHandshake {
+    handshake: HandshakeStatus;
+    handshakeReason: string | null;
+    capabilities: Capabilities;
+    features: FeatureFlag[];
 }
 
 export interface AudioFile {
     name: string;
     size: number;
     duration: number;
+    mimeType: string;
     buffer: ArrayBuffer | null;
 }
 
@@ -33,16 +71,30 @@ export interface MeshBeatState {
     // Connection state
     status: ConnectionStatus;
     connectedPeers: Map<string, ConnectedPeer>;
+    handshakeStatus: HandshakeStatus | null; // Guest: result of the handshake with the host
+    handshakeReason: string | null;
 
     // Audio state
     audioFile: AudioFile | null;
     playbackState: PlaybackState;
     currentTime: number;
     isMaster: boolean;
+    transferError: string | null; // Guest: why the last received file was refused
+    transferMode: TransferMode; // Host: how tracks are sent to guests
+    qualityTier: QualityTier; // Host: re-encode tracks smaller before sending
+
+    // Queue state
+    queue: QueueItem[]; // Shared playlist, in play order
+    currentTrackId: string | null; // Queue item the room is on
+    crossfade: number; // Host: seconds consecutive tracks overlap, 0 for gapless
+    masterVolume: VolumeSetting; // Host: fader applied to every device
+    channelRole: ChannelRole; // Guest: part of the mix the host assigned us
+    latencyTrim: number; // Guest: output latency trim for the current output device (ms)
 
     // Clock sync
     clockOffset: number;
     syncedTime: number;
+    playbackError: number | null; // Guest: how far playback is from where the shared clock says (ms, positive when ahead)
 
     // Actions
     setRole: (role: RoomRole) => void;
@@ -55,14 +107,35 @@ export interface MeshBeatState {
     removePeer: (id: string) => void;
     updatePeerLatency: (id: string, latency: number) => void;
     updatePeerStatus: (id: string, status: ConnectionStatus) => void;
+    updatePeerHandshake: (id: string, handshake: PeerHandshake) => void;
+    setHandshake: (status: HandshakeStatus, reason: string | null) => void;
+    recordRejectedMessage: (id: string, reason: string) => void;
+    updatePeerTransfer: (id: string, transfer: TransferStats) => void;
+    setPeerSwarm: (id: string, swarm: boolean) => void;
+    setPeerReadyTrack: (id: string, trackId: string | null) => void;
+    setPeerVolume: (id: string, volume: VolumeSetting) => void;
+    setPeerChannel: (id: string, channel: ChannelRole) => void;
+    setPeerLatencyTrim: (id: string, trim: number) => void;
+    addPeerSyncReport: (id: string, report: SyncHealth) => void;
 
     setAudioFile: (file: AudioFile | null) => void;
     setPlaybackState: (state: PlaybackState) => void;
     setCurrentTime: (time: number) => void;
     setIsMaster: (isMaster: boolean) => void;
+    setTransferError: (error: string | null) => void;
+    setTransferMode: (mode: TransferMode) => void;
+    setQualityTier: (tier: QualityTier) => void;
+
+    setQueue: (queue: QueueItem[]) => void;
+    setCurrentTrackId: (id: string | null) => void;
+    setCrossfade: (seconds: number) => void;
+    setMasterVolume: (volume: VolumeSetting) => void;
+    setChannelRole: (role: ChannelRole) => void;
+    setLatencyTrim: (trim: number) => void;
 
     setClockOffset: (offset: number) => void;
     setSyncedTime: (time: number) => void;
+    setPlaybackError: (error: number | null) => void;
 
     reset: () => void;
 }
@@ -74,12 +147,24 @@ const initialState = {
     peer: null,
     status: 'disconnected' as ConnectionStatus,
     connectedPeers: new Map<string, ConnectedPeer>(),
+    handshakeStatus: null,
+    handshakeReason: null,
     audioFile: null,
     playbackState: 'stopped' as PlaybackState,
     currentTime: 0,
     isMaster: false,
+    transferError: null,
+    transferMode: 'file' as TransferMode,
+    qualityTier: 'original' as QualityTier,
+    queue: [] as QueueItem[],
+    currentTrackId: null,
+    crossfade: 0,
+    masterVolume: DEFAULT_VOLUME,
+    channelRole: 'stereo' as ChannelRole,
+    latencyTrim: 0,
     clockOffset: 0,
     syncedTime: 0,
+    playbackError: null,
 };
 
 export const useMeshBeatStore = create<MeshBeatState>((set) => ({
@@ -131,13 +216,113 @@ export const useMeshBeatStore = create<MeshBeatState>((set) => ({
         return { connectedPeers: newPeers };
     }),
 
+    updatePeerHandshake: (id, handshake) => set((state) => {
+        const newPeers = new Map(state.connectedPeers);
+        const peer = newPeers.get(id);
+        if (peer) {
+            newPeers.set(id, { ...peer, ...handshake });
+        }
+        return { connectedPeers: newPeers };
+    }),
+
+    updatePeerTransfer: (id, transfer) => set((state) => {
+        const newPeers = new Map(state.connectedPeers);
+        const peer = newPeers.get(id);
+        if (peer) {
+            newPeers.set(id, { ...peer, transfer });
+        }
+        return { connectedPeers: newPeers };
+    }),
+
+    setPeerSwarm: (id, swarm) => set((state) => {
+        const newPeers = new Map(state.connectedPeers);
+        const peer = newPeers.get(id);
+        if (peer) {
+            newPeers.set(id, { ...peer, swarm });
+        }
+        return { connectedPeers: newPeers };
+    }),
+
+    setPeerReadyTrack: (id, readyTrackId) => set((state) => {
+        const newPeers = new Map(state.connectedPeers);
+        const peer = newPeers.get(id);
+        if (peer) {
+            newPeers.set(id, { ...peer, readyTrackId });
+        }
+        return { connectedPeers: newPeers };
+    }),
+
+    setPeerVolume: (id, volume) => set((state) => {
+        const newPeers = new Map(state.connectedPeers);
+        const peer = newPeers.get(id);
+        if (peer) {
+            newPeers.set(id, { ...peer, volume });
+        }
+        return { connectedPeers: newPeers };
+    }),
+
+    setPeerChannel: (id, channel) => set((state) => {
+        const newPeers = new Map(state.connectedPeers);
+        const peer = newPeers.get(id);
+        if (peer) {
+            newPeers.set(id, { ...peer, channel });
+        }
+        return { connectedPeers: newPeers };
+    }),
+
+    setPeerLatencyTrim: (id, latencyTrim) => set((state) => {
+        const newPeers = new Map(state.connectedPeers);
+        const peer = newPeers.get(id);
+        if (peer) {
+            newPeers.set(id, { ...peer, latencyTrim });
+        }
+        return { connectedPeers: newPeers };
+    }),
+
+    addPeerSyncReport: (id, report) => set((state) => {
+        const newPeers = new Map(state.connectedPeers);
+        const peer = newPeers.get(id);
+        if (peer) {
+            newPeers.set(id, {
+                ...peer,
+                syncHistory: [...peer.syncHistory, report].slice(-SYNC_HISTORY_LENGTH),
+                // Reports double as the latency probe HEARTBEAT was meant to be
+                latencyOffset: report.roundTripTime / 2,
+                lastPing: Date.now(),
+            });
+        }
+        return { connectedPeers: newPeers };
+    }),
+
+    setHandshake: (handshakeStatus, handshakeReason) => set({ handshakeStatus, handshakeReason }),
+
+    recordRejectedMessage: (id, reason) => set((state) => {
+        const newPeers = new Map(state.connectedPeers);
+        const peer = newPeers.get(id);
+        if (peer) {
+            newPeers.set(id, { ...peer, rejectedMessages: peer.rejectedMessages + 1, lastRejection: reason });
+        }
+        return { connectedPeers: newPeers };
+    }),
+
     setAudioFile: (audioFile) => set({ audioFile }),
     setPlaybackState: (playbackState) => set({ playbackState }),
     setCurrentTime: (currentTime) => set({ currentTime }),
     setIsMaster: (isMaster) => set({ isMaster }),
+    setTransferError: (transferError) => set({ transferError }),
+    setTransferMode: (transferMode) => set({ transferMode }),
+    setQualityTier: (qualityTier) => set({ qualityTier }),
+
+    setQueue: (queue) => set({ queue }),
+    setCurrentTrackId: (currentTrackId) => set({ currentTrackId }),
+    setCrossfade: (crossfade) => set({ crossfade }),
+    setMasterVolume: (masterVolume) => set({ masterVolume }),
+    setChannelRole: (channelRole) => set({ channelRole }),
+    setLatencyTrim: (latencyTrim) => set({ latencyTrim }),
 
     setClockOffset: (clockOffset) => set({ clockOffset }),
     setSyncedTime: (syncedTime) => set({ syncedTime }),
+    setPlaybackError: (playbackError) => set({ playbackError }),
 
     reset: () => set(initialState),
 }));
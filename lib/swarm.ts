@@ -0,0 +1,146 @@
+/**
+ * Swarm Coordinator
+ * Host-side bookkeeping for guest-to-guest chunk distribution: who holds what,
+ * and who should fetch which chunks from whom so the host seeds each chunk about once
+ */
+
+import {
+    type ChunkRange,
+    SWARM_ASSIGN_LIMIT,
+    SWARM_HOST_BATCH,
+    SWARM_REQUEST_TIMEOUT,
+    SWARM_STALL_ROUNDS,
+    type SwarmSource
+} from './protocol';
+
+export interface SwarmPlan {
+    sources: SwarmSource[]; // Chunks to fetch from other guests
+    fromHost: number[]; // Chunks the host sends directly
+}
+
+export class SwarmCoordinator {
+    readonly transferId: string;
+    private readonly totalChunks: number;
+    private holdings: Map<string, Uint8Array> = new Map(); // peerId -> 1 per held chunk
+    private counts: Map<string, number> = new Map();
+    private stalls: Map<string, number> = new Map(); // Consecutive reports without progress
+    private blocked: Map<string, Set<string>> = new Map(); // peerId -> sources it couldn't reach
+    private hostInFlight: Map<number, number> = new Map(); // Chunk -> when the host last seeded it
+
+    constructor(transferId: string, totalChunks: number) {
+        this.transferId = transferId;
+        this.totalChunks = totalChunks;
+    }
+
+    /**
+     * Replace a peer's holdings with a fresh report
+     */
+    setHave(peerId: string, ranges: ChunkRange[]): void {
+        const bitmap = new Uint8Array(this.totalChunks);
+        for (const [start, end] of ranges) {
+            bitmap.fill(1, start, Math.min(end, this.totalChunks));
+        }
+
+        const count = bitmap.reduce((sum, have) => sum + have, 0);
+        const previous = this.counts.get(peerId);
+        const stalled = previous !== undefined && count <= previous && count < this.totalChunks;
+        this.stalls.set(peerId, stalled ? (this.stalls.get(peerId) ?? 0) + 1 : 0);
+
+        this.holdings.set(peerId, bitmap);
+        this.counts.set(peerId, count);
+    }
+
+    /**
+     * Remember sources a peer failed to connect to, so it isn't sent there again
+     */
+    blockSources(peerId: string, sources: string[]): void {
+        if (sources.length === 0) return;
+        const blocked = this.blocked.get(peerId) ?? new Set<string>();
+        for (const source of sources) blocked.add(source);
+        this.blocked.set(peerId, blocked);
+    }
+
+    removePeer(peerId: string): void {
+        this.holdings.delete(peerId);
+        this.counts.delete(peerId);
+        this.stalls.delete(peerId);
+        this.blocked.delete(peerId);
+    }
+
+    isComplete(peerId: string): boolean {
+        return this.counts.get(peerId) === this.totalChunks;
+    }
+
+    /**
+     * Chunks a peer doesn't hold yet, in index order
+     */
+    getMissing(peerId: string): number[] {
+        const bitmap = this.holdings.get(peerId);
+        const missing: number[] = [];
+        for (let i = 0; i < this.totalChunks; i++) {
+            if (!bitmap?.[i]) missing.push(i);
+        }
+        return missing;
+    }
+
+    /**
+     * Decide where a peer should get its next chunks from
+     * @param order - Missing chunks in the order they're wanted (e.g. from the playback position)
+     */
+    plan(peerId: string, order: number[]): SwarmPlan {
+        const now = Date.now();
+        const blocked = this.blocked.get(peerId);
+        const stalled = (this.stalls.get(peerId) ?? 0) >= SWARM_STALL_ROUNDS;
+        const load: Map<string, number[]> = new Map();
+        const fromHost: number[] = [];
+        let assigned = 0;
+
+        // Give the fallback a few rounds to land before it can trigger again
+        if (stalled) {
+            this.stalls.set(peerId, 0);
+        }
+
+        const holders = Array.from(this.holdings.entries())
+            .filter(([id]) => id !== peerId && !blocked?.has(id));
+
+        for (const index of order) {
+            if (assigned >= SWARM_ASSIGN_LIMIT) break;
+
+            // A peer that stopped making progress gets everything from the host
+            if (stalled) {
+                fromHost.push(index);
+                assigned++;
+                continue;
+            }
+
+            // Least loaded guest that holds the chunk
+            let best: string | null = null;
+            for (const [id, bitmap] of holders) {
+                if (bitmap[index] && (best === null || (load.get(id)?.length ?? 0) < (load.get(best)?.length ?? 0))) {
+                    best = id;
+                }
+            }
+
+            if (best !== null) {
+                const indices = load.get(best) ?? [];
+                indices.push(index);
+                load.set(best, indices);
+                assigned++;
+                continue;
+            }
+
+            // Nobody has it - seed it from the host unless it's already on its way to someone
+            const seededAt = this.hostInFlight.get(index);
+            if (fromHost.length < SWARM_HOST_BATCH && (seededAt === undefined || now - seededAt > SWARM_REQUEST_TIMEOUT)) {
+                this.hostInFlight.set(index, now);
+                fromHost.push(index);
+                assigned++;
+            }
+        }
+
+        return {
+            sources: Array.from(load.entries()).map(([id, indices]) => ({ peerId: id, indices })),
+            fromHost,
+        };
+    }
+}
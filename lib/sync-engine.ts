@@ -1,107 +1,149 @@
 /**
  * NTP-style Clock Synchronization Engine
  * Calculates latency offset between host and guests for precise audio sync
+ * Each connection gets its own session, so a device can hold offsets to several peers at once
  */
 
 import { MessageType, type SyncRequest, type SyncResponse, SYNC_INTERVAL } from './protocol';
 import type { DataConnection } from 'peerjs';
 
+/**
+ * The local clock every synchronized time is measured on (ms since the epoch)
+ * Comparable between pages like Date.now(), but monotonic, so it never jumps when the system clock is set
+ */
+export function localNow(): number {
+    return performance.timeOrigin + performance.now();
+}
+
+// Samples the estimate is fitted over, about a minute at SYNC_INTERVAL
+const MAX_SAMPLES = 60;
+
+// Skew is only fitted once the samples span this long, shorter runs can't tell it from jitter (ms)
+const MIN_SKEW_SPAN = 20000;
+
+// Largest skew believed, real clocks are within a few hundred ppm of each other
+const MAX_SKEW = 500e-6;
+
+// Error every sample has on top of what its round trip allows, e.g. from timer resolution (ms)
+const BASE_ERROR = 1;
+
+// Standard normal quantile for a 95% confidence interval
+const Z_95 = 1.96;
+
+// How long a sync request waits for its response before it's given up on (ms)
+const SYNC_TIMEOUT = 1000;
+
 export interface SyncResult {
+    roundTripTime: number; // Best round trip in the window (ms)
+    clockOffset: number; // Remote clock minus local clock, as of now (ms)
+    skew: number; // How much faster the remote clock runs (ppm)
+    confidence: number; // Half-width of the offset's 95% confidence interval (ms)
+}
+
+interface SyncSample {
+    localTime: number; // localNow() halfway through the exchange
     roundTripTime: number;
     clockOffset: number;
 }
 
-export class SyncEngine {
-    private samples: SyncResult[] = [];
-    private maxSamples = 10;
+// Offset as a line through time, so it can be read off between samples
+interface ClockModel {
+    offset: number; // ms, at referenceTime
+    drift: number; // ms of offset gained per ms
+    referenceTime: number; // localNow()
+}
+
+/**
+ * Continuous sync against one peer: sends numbered requests, matches each response to its request
+ * and keeps the offset estimate for that peer
+ */
+export class SyncSession {
+    readonly connection: DataConnection;
+    private onSyncComplete: (result: SyncResult) => void;
+    private samples: SyncSample[] = [];
+    private model: ClockModel | null = null;
     private intervalId: NodeJS.Timeout | null = null;
+    private nextSeq = 1;
+    private pending: Map<number, { t1: number; timer: ReturnType<typeof setTimeout> }> = new Map(); // Requests awaiting a response, by seq
+
+    constructor(connection: DataConnection, onSyncComplete: (result: SyncResult) => void) {
+        this.connection = connection;
+        this.onSyncComplete = onSyncComplete;
+    }
 
     /**
-     * Start continuous sync with a peer connection
+     * Start continuous sync
      */
-    startSync(
-        connection: DataConnection,
-        onSyncComplete: (result: SyncResult) => void
-    ): void {
-        this.stopSync();
+    start(): void {
+        this.stop();
 
         // Initial sync
-        this.performSync(connection, onSyncComplete);
+        this.performSync();
 
         // Continuous sync at interval
         this.intervalId = setInterval(() => {
-            this.performSync(connection, onSyncComplete);
+            this.performSync();
         }, SYNC_INTERVAL);
     }
 
     /**
      * Stop continuous sync
      */
-    stopSync(): void {
+    stop(): void {
         if (this.intervalId) {
             clearInterval(this.intervalId);
             this.intervalId = null;
         }
+        this.pending.forEach(request => {
+            clearTimeout(request.timer);
+        });
+        this.pending.clear();
         this.samples = [];
+        this.model = null;
     }
 
     /**
      * Perform a single sync request
      */
-    private performSync(
-        connection: DataConnection,
-        onSyncComplete: (result: SyncResult) => void
-    ): void {
-        // Use Date.now() for cross-page synchronization
-        // performance.now() is relative to page load and differs between tabs
-        const t1 = Date.now();
+    private performSync(): void {
+        // performance.now() alone is relative to page load and differs between tabs
+        const t1 = localNow();
+        const seq = this.nextSeq++;
 
         const request: SyncRequest = {
             type: MessageType.SYNC_REQUEST,
+            seq,
             t1,
         };
 
-        // Set up one-time response handler
-        const handleResponse = (data: unknown) => {
-            if (typeof data === 'object' && data !== null && 'type' in data) {
-                const message = data as { type: string };
-                if (message.type === MessageType.SYNC_RESPONSE) {
-                    const response = data as SyncResponse;
-                    const t4 = Date.now();
-
-                    const result = this.calculateOffset(response.t1, response.t2, response.t3, t4);
-                    this.addSample(result);
-
-                    onSyncComplete(this.getAverageResult());
-
-                    connection.off('data', handleResponse);
-                }
-            }
-        };
-
-        connection.on('data', handleResponse);
-        connection.send(request);
-
-        // Timeout - remove handler if no response
-        setTimeout(() => {
-            connection.off('data', handleResponse);
-        }, 1000);
+        // A response that turns up after this is too stale to trust
+        this.pending.set(seq, {
+            t1,
+            timer: setTimeout(() => {
+                this.pending.delete(seq);
+            }, SYNC_TIMEOUT),
+        });
+        this.connection.send(request);
     }
 
     /**
-     * Handle incoming sync request (host side)
+     * Take in the response to one of our requests
+     * Late, duplicate and unknown responses are dropped
      */
-    handleSyncRequest(connection: DataConnection, request: SyncRequest): void {
-        const t2 = Date.now();
+    handleResponse(response: SyncResponse): void {
+        const t4 = localNow();
+        const request = this.pending.get(response.seq);
+        if (!request || request.t1 !== response.t1) {
+            console.warn(`[SyncSession] Dropped response to sync request ${response.seq}`);
+            return;
+        }
+        clearTimeout(request.timer);
+        this.pending.delete(response.seq);
 
-        const response: SyncResponse = {
-            type: MessageType.SYNC_RESPONSE,
-            t1: request.t1,
-            t2,
-            t3: Date.now(),
-        };
+        const result = this.calculateOffset(response.t1, response.t2, response.t3, t4);
+        this.addSample({ localTime: (response.t1 + t4) / 2, ...result });
 
-        connection.send(response);
+        this.onSyncComplete(this.estimate());
     }
 
     /**
@@ -109,55 +151,84 @@ export class SyncEngine {
      * RTT = (t4 - t1) - (t3 - t2)
      * Offset = ((t2 - t1) + (t3 - t4)) / 2
      */
-    private calculateOffset(t1: number, t2: number, t3: number, t4: number): SyncResult {
+    private calculateOffset(t1: number, t2: number, t3: number, t4: number): Pick<SyncSample, 'roundTripTime' | 'clockOffset'> {
         const roundTripTime = (t4 - t1) - (t3 - t2);
         const clockOffset = ((t2 - t1) + (t3 - t4)) / 2;
 
-        // Sanity check - offset shouldn't be more than a few seconds in normal conditions
-        const sanitizedOffset = Math.abs(clockOffset) > 10000 ? 0 : clockOffset;
+        // Both clocks are epoch-based, so any offset is the devices' wall clocks disagreeing - keep it
         const sanitizedRTT = roundTripTime < 0 ? Math.abs(roundTripTime) : roundTripTime;
 
-        return { roundTripTime: sanitizedRTT, clockOffset: sanitizedOffset };
+        return { roundTripTime: sanitizedRTT, clockOffset };
     }
 
     /**
      * Add sample and maintain max sample size
      */
-    private addSample(result: SyncResult): void {
-        this.samples.push(result);
-        if (this.samples.length > this.maxSamples) {
+    private addSample(sample: SyncSample): void {
+        this.samples.push(sample);
+        if (this.samples.length > MAX_SAMPLES) {
             this.samples.shift();
         }
     }
 
     /**
-     * Get average of all samples (excluding outliers)
+     * Fit offset and skew to the samples by weighted least squares
+     * A sample's offset can be off by up to half of however much longer its round trip took than the
+     * best one (the extra delay may all be on one leg), so samples are weighted by the inverse square of that
      */
-    private getAverageResult(): SyncResult {
-        if (this.samples.length === 0) {
-            return { roundTripTime: 0, clockOffset: 0 };
+    private estimate(): SyncResult {
+        const samples = this.samples;
+        if (samples.length === 0) {
+            return { roundTripTime: 0, clockOffset: 0, skew: 0, confidence: Infinity };
         }
 
-        // Sort by RTT and remove top/bottom 20% as outliers (if enough samples)
-        const sorted = [...this.samples].sort((a, b) => a.roundTripTime - b.roundTripTime);
-        const trimCount = Math.floor(sorted.length * 0.2);
-        const trimmed = sorted.slice(trimCount, sorted.length - trimCount || sorted.length);
+        const minRTT = Math.min(...samples.map(sample => sample.roundTripTime));
+        const referenceTime = samples[samples.length - 1].localTime;
+        const points = samples.map(sample => ({
+            x: sample.localTime - referenceTime,
+            y: sample.clockOffset,
+            weight: 1 / ((sample.roundTripTime - minRTT) / 2 + BASE_ERROR) ** 2,
+        }));
 
-        if (trimmed.length === 0) {
-            return this.samples[this.samples.length - 1];
-        }
+        const totalWeight = points.reduce((sum, p) => sum + p.weight, 0);
+        const meanX = points.reduce((sum, p) => sum + p.weight * p.x, 0) / totalWeight;
+        const meanY = points.reduce((sum, p) => sum + p.weight * p.y, 0) / totalWeight;
+        const sxx = points.reduce((sum, p) => sum + p.weight * (p.x - meanX) ** 2, 0);
+        const sxy = points.reduce((sum, p) => sum + p.weight * (p.x - meanX) * (p.y - meanY), 0);
 
-        const avgRTT = trimmed.reduce((sum, s) => sum + s.roundTripTime, 0) / trimmed.length;
-        const avgOffset = trimmed.reduce((sum, s) => sum + s.clockOffset, 0) / trimmed.length;
+        const fitSkew = -points[0].x >= MIN_SKEW_SPAN && sxx > 0;
+        const drift = fitSkew ? Math.max(-MAX_SKEW, Math.min(MAX_SKEW, sxy / sxx)) : 0;
+        const offset = meanY - drift * meanX;
 
-        return { roundTripTime: avgRTT, clockOffset: avgOffset };
+        // Widen the interval when the samples scatter more than their round trips explain
+        const params = fitSkew ? 2 : 1;
+        const chiSquare = points.reduce((sum, p) => sum + p.weight * (p.y - (offset + drift * p.x)) ** 2, 0);
+        const scale = points.length > params ? Math.max(1, chiSquare / (points.length - params)) : 1;
+        const variance = (1 / totalWeight + (fitSkew ? meanX ** 2 / sxx : 0)) * scale;
+
+        this.model = { offset, drift, referenceTime };
+        return {
+            roundTripTime: minRTT,
+            clockOffset: this.getClockOffset(),
+            skew: drift * 1e6,
+            confidence: Z_95 * Math.sqrt(variance),
+        };
     }
 
     /**
-     * Get synchronized time (adjusted for offset)
+     * Current offset to the remote clock, carried forward by the skew since the last sample
      */
-    getSyncedTime(clockOffset: number): number {
-        return performance.now() + clockOffset;
+    getClockOffset(at: number = localNow()): number {
+        if (!this.model) return 0;
+        return this.model.offset + this.model.drift * (at - this.model.referenceTime);
+    }
+
+    /**
+     * Get synchronized time (local time moved onto the remote clock)
+     */
+    getSyncedTime(): number {
+        const now = localNow();
+        return now + this.getClockOffset(now);
     }
 
     /**
@@ -165,7 +236,75 @@ export class SyncEngine {
      * Returns a time in the future that all peers should have received
      */
     static calculateScheduleTime(buffer: number = 500): number {
-        return performance.now() + buffer;
+        return localNow() + buffer;
+    }
+}
+
+export class SyncEngine {
+    private sessions: Map<string, SyncSession> = new Map(); // Peer id -> session
+
+    /**
+     * Start continuous sync with a peer connection, replacing any earlier session with that peer
+     */
+    startSync(
+        connection: DataConnection,
+        onSyncComplete: (result: SyncResult) => void
+    ): SyncSession {
+        this.stopSync(connection.peer);
+
+        const session = new SyncSession(connection, onSyncComplete);
+        this.sessions.set(connection.peer, session);
+        session.start();
+        return session;
+    }
+
+    /**
+     * Stop continuous sync with one peer, or with every peer
+     */
+    stopSync(peerId?: string): void {
+        if (peerId === undefined) {
+            this.sessions.forEach(session => {
+                session.stop();
+            });
+            this.sessions.clear();
+            return;
+        }
+
+        this.sessions.get(peerId)?.stop();
+        this.sessions.delete(peerId);
+    }
+
+    getSession(peerId: string): SyncSession | null {
+        return this.sessions.get(peerId) ?? null;
+    }
+
+    /**
+     * Handle incoming sync request (host side)
+     */
+    handleSyncRequest(connection: DataConnection, request: SyncRequest): void {
+        const t2 = localNow();
+
+        const response: SyncResponse = {
+            type: MessageType.SYNC_RESPONSE,
+            seq: request.seq,
+            t1: request.t1,
+            t2,
+            t3: localNow(),
+        };
+
+        connection.send(response);
+    }
+
+    /**
+     * Pass a sync response to the session on the connection it came in on
+     */
+    handleSyncResponse(connection: DataConnection, response: SyncResponse): void {
+        const session = this.sessions.get(connection.peer);
+        if (session?.connection !== connection) {
+            console.warn(`[SyncEngine] Sync response from ${connection.peer} without a session`);
+            return;
+        }
+        session.handleResponse(response);
     }
 }
 
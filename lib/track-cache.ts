@@ -0,0 +1,207 @@
+/**
+ * Track Cache
+ * Content-addressed IndexedDB store for received audio, keyed by SHA-256, with LRU eviction
+ */
+
+const DB_NAME = 'meshbeat';
+const DB_VERSION = 1;
+const DATA_STORE = 'tracks'; // hash -> ArrayBuffer
+const ENTRY_STORE = 'entries'; // hash -> CacheEntry (small, scanned for eviction)
+
+// Default space the cache may use (bytes)
+export const DEFAULT_CACHE_QUOTA = 500 * 1024 * 1024;
+
+export interface CacheEntry {
+    hash: string;
+    name: string;
+    mimeType: string;
+    duration: number;
+    size: number;
+    lastUsed: number;
+}
+
+export interface CachedTrack {
+    entry: CacheEntry;
+    buffer: ArrayBuffer;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+export class TrackCache {
+    private db: Promise<IDBDatabase | null> | null = null;
+    private quota = DEFAULT_CACHE_QUOTA;
+
+    /**
+     * Open the database once; resolves null where IndexedDB isn't available (SSR, private mode)
+     */
+    private open(): Promise<IDBDatabase | null> {
+        if (!this.db) {
+            this.db = new Promise(resolve => {
+                if (typeof indexedDB === 'undefined') {
+                    resolve(null);
+                    return;
+                }
+
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    db.createObjectStore(DATA_STORE);
+                    const entries = db.createObjectStore(ENTRY_STORE, { keyPath: 'hash' });
+                    entries.createIndex('lastUsed', 'lastUsed');
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    console.warn('[TrackCache] IndexedDB unavailable:', request.error);
+                    resolve(null);
+                };
+            });
+        }
+        return this.db;
+    }
+
+    /**
+     * Set the maximum cache size in bytes
+     */
+    setQuota(bytes: number): void {
+        this.quota = bytes;
+    }
+
+    /**
+     * Look up a track's metadata without loading its audio
+     */
+    async has(hash: string): Promise<boolean> {
+        const db = await this.open();
+        if (!db) return false;
+
+        try {
+            const entry = await promisify(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).get(hash));
+            return entry !== undefined;
+        } catch (error) {
+            console.warn('[TrackCache] Lookup failed:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Load a cached track and mark it as recently used
+     */
+    async get(hash: string): Promise<CachedTrack | null> {
+        const db = await this.open();
+        if (!db) return null;
+
+        try {
+            const tx = db.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+            const entries = tx.objectStore(ENTRY_STORE);
+            const entry = await promisify<CacheEntry | undefined>(entries.get(hash));
+            const buffer = await promisify<ArrayBuffer | undefined>(tx.objectStore(DATA_STORE).get(hash));
+
+            if (!entry || !buffer) {
+                return null;
+            }
+
+            const touched = { ...entry, lastUsed: Date.now() };
+            entries.put(touched);
+            await transactionDone(tx);
+
+            return { entry: touched, buffer };
+        } catch (error) {
+            console.warn('[TrackCache] Read failed:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Store a verified track, evicting least recently used tracks to stay under quota
+     */
+    async put(entry: Omit<CacheEntry, 'lastUsed' | 'size'>, buffer: ArrayBuffer): Promise<void> {
+        if (buffer.byteLength > this.quota) {
+            console.log(`[TrackCache] ${entry.name} is larger than the cache quota, not caching`);
+            return;
+        }
+
+        const db = await this.open();
+        if (!db) return;
+
+        try {
+            await this.evict(db, buffer.byteLength, entry.hash);
+
+            const tx = db.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+            tx.objectStore(DATA_STORE).put(buffer, entry.hash);
+            tx.objectStore(ENTRY_STORE).put({ ...entry, size: buffer.byteLength, lastUsed: Date.now() });
+            await transactionDone(tx);
+
+            console.log(`[TrackCache] Cached ${entry.name} (${entry.hash.slice(0, 12)})`);
+        } catch (error) {
+            console.warn('[TrackCache] Write failed:', error);
+        }
+    }
+
+    /**
+     * Delete least recently used tracks until `incoming` more bytes fit in the quota
+     */
+    private async evict(db: IDBDatabase, incoming: number, keepHash: string): Promise<void> {
+        const entries = await promisify<CacheEntry[]>(
+            db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).index('lastUsed').getAll()
+        );
+
+        let used = entries.reduce((sum, entry) => sum + (entry.hash === keepHash ? 0 : entry.size), 0);
+        const victims: string[] = [];
+
+        // getAll on the index returns oldest first
+        for (const entry of entries) {
+            if (used + incoming <= this.quota) break;
+            if (entry.hash === keepHash) continue;
+            victims.push(entry.hash);
+            used -= entry.size;
+        }
+
+        if (victims.length === 0) return;
+
+        const tx = db.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+        for (const hash of victims) {
+            tx.objectStore(ENTRY_STORE).delete(hash);
+            tx.objectStore(DATA_STORE).delete(hash);
+        }
+        await transactionDone(tx);
+        console.log(`[TrackCache] Evicted ${victims.length} track(s)`);
+    }
+
+    /**
+     * Total bytes currently cached
+     */
+    async getUsage(): Promise<number> {
+        const db = await this.open();
+        if (!db) return 0;
+
+        const entries = await promisify<CacheEntry[]>(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll());
+        return entries.reduce((sum, entry) => sum + entry.size, 0);
+    }
+
+    /**
+     * Remove every cached track
+     */
+    async clear(): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        const tx = db.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+        tx.objectStore(ENTRY_STORE).clear();
+        tx.objectStore(DATA_STORE).clear();
+        await transactionDone(tx);
+    }
+}
+
+export const trackCache = new TrackCache();
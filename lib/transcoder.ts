@@ -0,0 +1,185 @@
+/**
+ * Transcoder
+ * Host-side encode step that shrinks a track before it's sent to guests
+ * Opus via WebCodecs where available, otherwise downsampled 16-bit PCM
+ */
+
+import {
+    DEFAULT_OPUS_PRE_SKIP,
+    muxOggOpus,
+    OPUS_SAMPLE_RATE,
+    type OpusPacket, 
+    readOpusPreSkip
+} from './ogg-opus';
+import { SEGMENT_DURATION } from './protocol';
+import {
+    assembleSegments,
+    type EncodedSegment,
+    encodeWav,
+    PCM_CODEC,
+    type SegmentedPayload, 
+    segmentFrameRanges,
+    WAV_MIME
+} from './segments';
+
+export type QualityTier = 'original' | 'high' | 'medium' | 'low';
+export type TransferCodec = 'opus' | 'pcm';
+
+export interface TierSettings {
+    label: string;
+    opusBitrate: number; // bits per second
+    pcmSampleRate: number; // Fallback when Opus isn't available
+    pcmChannels: number;
+}
+
+export const QUALITY_TIERS: Record<Exclude<QualityTier, 'original'>, TierSettings> = {
+    high: { label: 'High', opusBitrate: 192_000, pcmSampleRate: 32000, pcmChannels: 2 },
+    medium: { label: 'Medium', opusBitrate: 128_000, pcmSampleRate: 24000, pcmChannels: 2 },
+    low: { label: 'Low', opusBitrate: 64_000, pcmSampleRate: 16000, pcmChannels: 1 },
+};
+
+// Mime type guests advertise when they can decode Ogg Opus (see capabilities.ts)
+export const OPUS_MIME = 'audio/ogg; codecs=opus';
+
+let opusSupport: Promise<boolean> | null = null;
+
+/**
+ * Check (once) whether this browser can encode Opus with WebCodecs
+ */
+export function canEncodeOpus(): Promise<boolean> {
+    if (!opusSupport) {
+        opusSupport = typeof AudioEncoder === 'undefined'
+            ? Promise.resolve(false)
+            : AudioEncoder.isConfigSupported({
+                codec: 'opus',
+                sampleRate: OPUS_SAMPLE_RATE,
+                numberOfChannels: 2,
+                bitrate: QUALITY_TIERS.medium.opusBitrate,
+            }).then(result => result.supported === true, () => false);
+    }
+    return opusSupport;
+}
+
+/**
+ * Pick the most compact codec both the host and a guest can handle
+ */
+export async function pickTransferCodec(guestCodecs: string[]): Promise<TransferCodec> {
+    return guestCodecs.includes(OPUS_MIME) && await canEncodeOpus() ? 'opus' : 'pcm';
+}
+
+/**
+ * Render a buffer at another sample rate and channel count (downmixing as needed)
+ */
+async function resample(audioBuffer: AudioBuffer, sampleRate: number, channels: number): Promise<AudioBuffer> {
+    if (audioBuffer.sampleRate === sampleRate && audioBuffer.numberOfChannels === channels) {
+        return audioBuffer;
+    }
+
+    const length = Math.ceil(audioBuffer.duration * sampleRate);
+    const context = new OfflineAudioContext(channels, length, sampleRate);
+    const source = context.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(context.destination);
+    source.start();
+    return context.startRendering();
+}
+
+/**
+ * Encode 48kHz PCM as a standalone Ogg Opus file
+ */
+async function encodeOpus(channels: Float32Array[], bitrate: number): Promise<Uint8Array> {
+    const frameCount = channels[0]?.length ?? 0;
+    const packets: OpusPacket[] = [];
+    let preSkip = DEFAULT_OPUS_PRE_SKIP;
+    let encodeError: Error | null = null;
+
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            // Opus frames are 20ms unless the encoder says otherwise
+            const samples = chunk.duration ? Math.round((chunk.duration * OPUS_SAMPLE_RATE) / 1_000_000) : 960;
+            packets.push({ data, samples });
+
+            const description = metadata?.decoderConfig?.description;
+            if (description) {
+                preSkip = readOpusPreSkip(description) ?? preSkip;
+            }
+        },
+        error: (error) => {
+            encodeError = error;
+        },
+    });
+
+    encoder.configure({
+        codec: 'opus',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfChannels: channels.length,
+        bitrate,
+    });
+
+    const planar = new Float32Array(frameCount * channels.length);
+    channels.forEach((data, ch) => {
+        planar.set(data, ch * frameCount);
+    });
+
+    const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfFrames: frameCount,
+        numberOfChannels: channels.length,
+        timestamp: 0,
+        data: planar,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+
+    await encoder.flush();
+    encoder.close();
+
+    if (encodeError) {
+        throw encodeError;
+    }
+
+    return muxOggOpus(packets, {
+        channels: channels.length,
+        preSkip,
+        inputSampleRate: OPUS_SAMPLE_RATE,
+        totalSamples: frameCount,
+    });
+}
+
+/**
+ * Encode a decoded track at a quality tier, cut into independently decodable segments
+ * Pass Infinity as segmentDuration for a single whole-file segment
+ */
+export async function encodeTrack(
+    audioBuffer: AudioBuffer,
+    tier: Exclude<QualityTier, 'original'>,
+    codec: TransferCodec,
+    segmentDuration: number = SEGMENT_DURATION
+): Promise<SegmentedPayload> {
+    const settings = QUALITY_TIERS[tier];
+    const sampleRate = codec === 'opus' ? OPUS_SAMPLE_RATE : Math.min(settings.pcmSampleRate, audioBuffer.sampleRate);
+    // Opus mapping family 0 covers mono and stereo
+    const channelCount = Math.min(codec === 'opus' ? 2 : settings.pcmChannels, audioBuffer.numberOfChannels);
+
+    const rendered = await resample(audioBuffer, sampleRate, channelCount);
+    const channels = Array.from({ length: channelCount }, (_, ch) => rendered.getChannelData(ch));
+
+    const parts: EncodedSegment[] = [];
+    for (const [start, end] of segmentFrameRanges(rendered.length, sampleRate, segmentDuration)) {
+        const slice = channels.map(data => data.subarray(start, end));
+        parts.push({
+            bytes: codec === 'opus' ? await encodeOpus(slice, settings.opusBitrate) : encodeWav(slice, sampleRate),
+            start: start / sampleRate,
+            duration: (end - start) / sampleRate,
+        });
+    }
+
+    return {
+        ...assembleSegments(parts),
+        mimeType: codec === 'opus' ? OPUS_MIME : WAV_MIME,
+        codec: codec === 'opus' ? 'opus' : PCM_CODEC,
+    };
+}
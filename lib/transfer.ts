@@ -0,0 +1,452 @@
+/**
+ * Audio Transfer
+ * Chunking, checksums and verification for file transfers between peers
+ */
+
+import type { DataConnection } from 'peerjs';
+import { chunkArrayBuffer, reassembleChunks } from './audio-engine';
+import { crc32, sha256Hex } from './checksum';
+import { type AudioChunk, type AudioMeta, type AudioSegment, CHUNK_SIZE, type ChunkRange, MessageType } from './protocol';
+import { getSegmentChunkRange } from './segments';
+
+export interface OutgoingTransfer {
+    meta: AudioMeta;
+    chunks: Uint8Array[];
+    checksums: number[];
+}
+
+// Flow control window for the underlying RTCDataChannel (bytes)
+export interface SenderOptions {
+    highWatermark: number; // Pause sending above this many buffered bytes
+    lowWatermark: number; // Resume once the buffer drains below this
+}
+
+export const DEFAULT_SENDER_OPTIONS: SenderOptions = {
+    highWatermark: 1024 * 1024,
+    lowWatermark: 256 * 1024,
+};
+
+// Shallow window for background sends, so anything urgent on the same link isn't stuck behind them
+export const BACKGROUND_SENDER_OPTIONS: SenderOptions = {
+    highWatermark: 128 * 1024,
+    lowWatermark: 32 * 1024,
+};
+
+// How the bytes of an outgoing file should be interpreted by the receiver
+export interface TransferLayout {
+    mimeType: string;
+    codec: string | null;
+    segments: AudioSegment[] | null;
+}
+
+// A segment whose bytes have all arrived intact
+export interface ReadySegment {
+    segment: AudioSegment;
+    data: Uint8Array;
+}
+
+export interface TransferStats {
+    sentChunks: number;
+    totalChunks: number;
+    bytesPerSecond: number;
+    active: boolean;
+}
+
+// How often progress is reported while sending (ms)
+const PROGRESS_INTERVAL = 250;
+
+// Fallback poll while draining - PeerJS's own queue doesn't fire bufferedamountlow (ms)
+const DRAIN_POLL_INTERVAL = 50;
+
+/**
+ * Thrown when a received file doesn't match its advertised hash
+ */
+export class TransferIntegrityError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TransferIntegrityError';
+    }
+}
+
+/**
+ * Chunk a file and compute its checksums (sender side)
+ */
+export async function prepareTransfer(
+    buffer: ArrayBuffer,
+    name: string,
+    duration: number,
+    layout: TransferLayout,
+    trackId: string | null
+): Promise<OutgoingTransfer> {
+    const chunks = chunkArrayBuffer(buffer);
+    const checksums = chunks.map(chunk => crc32(chunk));
+    const sha256 = await sha256Hex(buffer);
+
+    return {
+        meta: {
+            type: MessageType.AUDIO_META,
+            name,
+            size: buffer.byteLength,
+            duration,
+            mimeType: layout.mimeType,
+            codec: layout.codec,
+            totalChunks: chunks.length,
+            sha256,
+            segments: layout.segments,
+            trackId,
+        },
+        chunks,
+        checksums,
+    };
+}
+
+/**
+ * Rebuild a sendable transfer from a verified file, so a guest can seed it to others
+ */
+export function transferFromVerified(meta: AudioMeta, buffer: ArrayBuffer): OutgoingTransfer {
+    const chunks = chunkArrayBuffer(buffer);
+    return { meta, chunks, checksums: chunks.map(chunk => crc32(chunk)) };
+}
+
+/**
+ * Build the wire message for one chunk of an outgoing transfer
+ */
+export function createChunkMessage(transfer: OutgoingTransfer, chunkIndex: number): AudioChunk {
+    return {
+        type: MessageType.AUDIO_CHUNK,
+        transferId: transfer.meta.sha256,
+        chunkIndex,
+        totalChunks: transfer.chunks.length,
+        checksum: transfer.checksums[chunkIndex],
+        data: transfer.chunks[chunkIndex],
+    };
+}
+
+/**
+ * Chunk indices of a transfer not covered by any of the given ranges
+ */
+export function indicesOutsideRanges(totalChunks: number, ranges: ChunkRange[]): number[] {
+    const covered = new Uint8Array(totalChunks);
+    for (const [start, end] of ranges) {
+        covered.fill(1, start, Math.min(end, totalChunks));
+    }
+
+    const indices: number[] = [];
+    for (let i = 0; i < totalChunks; i++) {
+        if (!covered[i]) {
+            indices.push(i);
+        }
+    }
+    return indices;
+}
+
+/**
+ * Collects and verifies the chunks of one file (receiver side)
+ * Kept across reconnects, keyed by file hash, so a dropped guest can resume
+ */
+export class IncomingTransfer {
+    readonly meta: AudioMeta;
+    private chunks: (Uint8Array | undefined)[];
+    private checksums: number[];
+    private receivedCount = 0;
+    private corruptCount = 0;
+    private nackRounds = 0;
+    private nackProgress = 0; // Chunks received as of the last NACK
+    private restartCount = 0; // Times the whole file was thrown away after failing its hash
+    private emittedSegments: Set<number> = new Set(); // Segments already handed out for decoding
+
+    constructor(meta: AudioMeta) {
+        this.meta = meta;
+        this.chunks = new Array(meta.totalChunks);
+        this.checksums = new Array(meta.totalChunks);
+    }
+
+    /**
+     * Store a chunk if its checksum matches
+     * Returns false for corrupt chunks, which stay missing so they get re-requested
+     */
+    addChunk(chunk: AudioChunk): boolean {
+        if (crc32(chunk.data) !== chunk.checksum) {
+            this.corruptCount++;
+            return false;
+        }
+
+        if (this.chunks[chunk.chunkIndex] === undefined) {
+            this.receivedCount++;
+        }
+        this.chunks[chunk.chunkIndex] = chunk.data;
+        this.checksums[chunk.chunkIndex] = chunk.checksum;
+        return true;
+    }
+
+    hasChunk(chunkIndex: number): boolean {
+        return this.chunks[chunkIndex] !== undefined;
+    }
+
+    /**
+     * Wire message for a chunk we hold, for relaying to another guest
+     */
+    getChunkMessage(chunkIndex: number): AudioChunk | null {
+        const data = this.chunks[chunkIndex];
+        if (data === undefined) return null;
+        return {
+            type: MessageType.AUDIO_CHUNK,
+            transferId: this.meta.sha256,
+            chunkIndex,
+            totalChunks: this.meta.totalChunks,
+            checksum: this.checksums[chunkIndex],
+            data,
+        };
+    }
+
+    /**
+     * Segments that became complete since the last call, in track order
+     * Pass the index of a newly added chunk to only check the segments it touches
+     */
+    takeReadySegments(chunkIndex?: number): ReadySegment[] {
+        const segments = this.meta.segments;
+        if (!segments) return [];
+
+        const candidates = chunkIndex === undefined
+            ? segments.map((_, i) => i)
+            : this.segmentsTouchingChunk(chunkIndex);
+
+        const ready: ReadySegment[] = [];
+        for (const i of candidates) {
+            if (this.emittedSegments.has(i)) continue;
+
+            const [first, last] = getSegmentChunkRange(segments[i]);
+            let complete = true;
+            for (let c = first; c <= last && complete; c++) {
+                complete = this.chunks[c] !== undefined;
+            }
+            if (!complete) continue;
+
+            this.emittedSegments.add(i);
+            ready.push({ segment: segments[i], data: this.readBytes(segments[i].offset, segments[i].length) });
+        }
+        return ready;
+    }
+
+    /**
+     * Indices of the segments overlapping one chunk (binary search on byte offset)
+     */
+    private segmentsTouchingChunk(chunkIndex: number): number[] {
+        const segments = this.meta.segments ?? [];
+        const chunkStart = chunkIndex * CHUNK_SIZE;
+        const chunkEnd = chunkStart + CHUNK_SIZE;
+
+        let lo = 0;
+        let hi = segments.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (segments[mid].offset <= chunkStart) lo = mid;
+            else hi = mid - 1;
+        }
+
+        const indices: number[] = [];
+        for (let i = lo; i < segments.length && segments[i].offset < chunkEnd; i++) {
+            indices.push(i);
+        }
+        return indices;
+    }
+
+    /**
+     * Copy a byte range out of the received chunks
+     */
+    private readBytes(offset: number, length: number): Uint8Array {
+        const out = new Uint8Array(length);
+        let written = 0;
+        while (written < length) {
+            const position = offset + written;
+            const chunk = this.chunks[Math.floor(position / CHUNK_SIZE)] as Uint8Array;
+            const start = position % CHUNK_SIZE;
+            const piece = chunk.subarray(start, Math.min(chunk.byteLength, start + length - written));
+            out.set(piece, written);
+            written += piece.byteLength;
+        }
+        return out;
+    }
+
+    /**
+     * Indices not yet received intact
+     */
+    getMissingIndices(): number[] {
+        const missing: number[] = [];
+        for (let i = 0; i < this.meta.totalChunks; i++) {
+            if (this.chunks[i] === undefined) {
+                missing.push(i);
+            }
+        }
+        return missing;
+    }
+
+    /**
+     * Received chunks as [start, end) ranges, capped to maxRanges
+     */
+    getReceivedRanges(maxRanges: number): ChunkRange[] {
+        const ranges: ChunkRange[] = [];
+        let start = -1;
+
+        for (let i = 0; i <= this.meta.totalChunks && ranges.length < maxRanges; i++) {
+            const have = i < this.meta.totalChunks && this.chunks[i] !== undefined;
+            if (have && start === -1) {
+                start = i;
+            } else if (!have && start !== -1) {
+                ranges.push([start, i]);
+                start = -1;
+            }
+        }
+        return ranges;
+    }
+
+    /**
+     * Count another NACK round; rounds that brought new chunks reset the count
+     */
+    nextNackRound(): number {
+        this.nackRounds = this.receivedCount > this.nackProgress ? 1 : this.nackRounds + 1;
+        this.nackProgress = this.receivedCount;
+        return this.nackRounds;
+    }
+
+    /**
+     * Drop every chunk so the whole file is fetched again, after it failed its hash
+     * Returns how many times the transfer has been started over
+     */
+    restart(): number {
+        this.chunks = new Array(this.meta.totalChunks);
+        this.receivedCount = 0;
+        this.nackRounds = 0;
+        this.nackProgress = 0;
+        return ++this.restartCount;
+    }
+
+    getRestartCount(): number {
+        return this.restartCount;
+    }
+
+    get id(): string {
+        return this.meta.sha256;
+    }
+
+    isComplete(): boolean {
+        return this.receivedCount === this.meta.totalChunks;
+    }
+
+    getReceivedCount(): number {
+        return this.receivedCount;
+    }
+
+    getCorruptCount(): number {
+        return this.corruptCount;
+    }
+
+    /**
+     * Reassemble the file and check it against the advertised SHA-256
+     */
+    async assemble(): Promise<ArrayBuffer> {
+        if (!this.isComplete()) {
+            throw new TransferIntegrityError(`Missing ${this.meta.totalChunks - this.receivedCount} chunks`);
+        }
+
+        const buffer = reassembleChunks(this.chunks as Uint8Array[]);
+        if (buffer.byteLength !== this.meta.size) {
+            throw new TransferIntegrityError(`Size mismatch: got ${buffer.byteLength} bytes, expected ${this.meta.size}`);
+        }
+
+        const sha256 = await sha256Hex(buffer);
+        if (sha256 !== this.meta.sha256) {
+            throw new TransferIntegrityError(`SHA-256 mismatch for ${this.meta.name}`);
+        }
+
+        return buffer;
+    }
+}
+
+/**
+ * Bytes waiting to go out on a connection: the DataChannel buffer plus PeerJS's internal queue
+ */
+function getBufferedBytes(conn: DataConnection): number {
+    const channelBytes = conn.dataChannel?.bufferedAmount ?? 0;
+    // BufferedConnection counts queued messages, not bytes - each is at most one chunk
+    const queuedMessages = (conn as DataConnection & { bufferSize?: number }).bufferSize ?? 0;
+    return channelBytes + queuedMessages * CHUNK_SIZE;
+}
+
+/**
+ * Wait until the connection drains below the low watermark (or closes)
+ */
+function waitForDrain(conn: DataConnection, lowWatermark: number): Promise<void> {
+    return new Promise(resolve => {
+        const channel = conn.dataChannel;
+
+        const check = () => {
+            if (!conn.open || getBufferedBytes(conn) <= lowWatermark) {
+                clearInterval(pollId);
+                channel?.removeEventListener('bufferedamountlow', check);
+                conn.off('close', check);
+                resolve();
+            }
+        };
+
+        const pollId = setInterval(check, DRAIN_POLL_INTERVAL);
+        channel?.addEventListener('bufferedamountlow', check);
+        conn.on('close', check);
+    });
+}
+
+/**
+ * Send chunks as fast as the link allows, keeping the buffer inside the watermark window
+ * Chunks the provider doesn't have are skipped
+ * Returns false if the connection closed before everything was queued
+ */
+export async function sendChunksWithBackpressure(
+    conn: DataConnection,
+    getChunk: (chunkIndex: number) => AudioChunk | null,
+    indices: number[],
+    options: SenderOptions = DEFAULT_SENDER_OPTIONS,
+    onProgress?: (stats: TransferStats) => void
+): Promise<boolean> {
+    if (conn.dataChannel) {
+        conn.dataChannel.bufferedAmountLowThreshold = options.lowWatermark;
+    }
+
+    const startedAt = performance.now();
+    let lastReport = startedAt;
+    let bytesSent = 0;
+
+    const report = (sentChunks: number, active: boolean) => {
+        const elapsed = (performance.now() - startedAt) / 1000;
+        onProgress?.({
+            sentChunks,
+            totalChunks: indices.length,
+            bytesPerSecond: elapsed > 0 ? bytesSent / elapsed : 0,
+            active,
+        });
+    };
+
+    for (let i = 0; i < indices.length; i++) {
+        while (conn.open && getBufferedBytes(conn) > options.highWatermark) {
+            await waitForDrain(conn, options.lowWatermark);
+        }
+
+        if (!conn.open) {
+            report(i, false);
+            return false;
+        }
+
+        const message = getChunk(indices[i]);
+        if (!message) continue;
+        conn.send(message);
+        bytesSent += message.data.byteLength;
+
+        const now = performance.now();
+        if (now - lastReport >= PROGRESS_INTERVAL) {
+            lastReport = now;
+            report(i + 1, true);
+        }
+    }
+
+    report(indices.length, false);
+    return true;
+}